@@ -1,11 +1,93 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Stars } from '@react-three/drei';
-import { Chess } from 'chess.js';
-import { ref, set, onValue, off, remove, get } from 'firebase/database';
-import { signInAnonymously } from 'firebase/auth';
-import { db, auth } from './firebase';
-import type { Room, ChessPiece, ChatMessage, User } from './types';
+import { Chess, DEFAULT_POSITION, type Square } from 'chess.js';
+import { roomStore, userStore, type Unsubscribe } from './store';
+import { serverNow } from './serverClock';
+import {
+  tryMove,
+  toPlayerColor,
+  syncChess,
+  getWhiteRole,
+  getPieces,
+  getPositions,
+  isRatedRoom,
+  isAssistanceAllowed,
+  isTakebackAllowed,
+  getTakebackPlies,
+  getClaimableDraw,
+  getRoleByColor,
+  tryRoomMove,
+  getLegalTargets,
+  getMoveNumbering,
+  loadChess
+} from './chessRules';
+import { VARIANTS, getVariant, getVariantRules, getCheckCounts } from './variants';
+import {
+  applyMoveToRoom,
+  flagRoom,
+  finishRoom,
+  resignRoom,
+  takeBackMoves,
+  isSamePosition,
+  reclaimSeat,
+  pauseForDisconnect,
+  resumeForReconnect,
+  finishForDisconnect,
+  isAbandonedWaitingRoom,
+  DISCONNECT_TIMEOUT_MS
+} from './roomUpdates';
+import { loadActiveRoom, saveActiveRoom, clearActiveRoom } from './roomSession';
+import { buildPgn, parsePgn } from './pgn';
+import {
+  toTimeControl,
+  getTimeControl,
+  getTimeoutPolicy,
+  formatTimeControl,
+  createClocks,
+  getRemainingTime,
+  formatClock,
+  type CustomTimeInput
+} from './timeControl';
+import { BOT_LEVELS, MATE_SCORE } from './engine';
+import { requestBotMove, requestBestMove } from './engineClient';
+import { analyzeGame, toWinPercent, ANALYSIS_TIME_MS } from './analysis';
+import { getOpening, getBookMoves, getOpeningFamily } from './openings';
+import {
+  DEFAULT_PUZZLE_RATING,
+  pickPuzzle,
+  isPuzzleMoveCorrect,
+  getNewPuzzleRating,
+  recordPuzzleResult
+} from './puzzles';
+import { archiveGame, fetchUserGames } from './gameArchive';
+import { createEmptySetup, setupToFen, fenToSetup, getEnPassantCandidates, validateSetup } from './positionSetup';
+import type {
+  Room,
+  ChessPiece,
+  ChatMessage,
+  User,
+  GameEndReason,
+  PieceType,
+  PieceColor,
+  MoveRecord,
+  ArchivedGame,
+  ReplayGame,
+  ImportedGame,
+  TimeControl,
+  TimeoutPolicy,
+  Variant,
+  CreateRoomOptions,
+  BotGameOptions,
+  HotseatOptions,
+  LocalGameSetup,
+  MoveJudgement,
+  MoveAnalysis,
+  GameAnalysis,
+  Opening,
+  Puzzle,
+  PositionSetup
+} from './types';
 import './App.css';
 
 // Generate 5-digit room code
@@ -13,19 +95,48 @@ const generateRoomCode = (): string => {
   return Math.floor(10000 + Math.random() * 90000).toString();
 };
 
+// 텍스트 파일 다운로드 (PGN 내보내기)
+const downloadTextFile = (filename: string, content: string) => {
+  const blob = new Blob([content], { type: 'application/x-chess-pgn' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// 방의 현재 게임을 다시보기 / 분석용으로 변환
+const toReplayGame = (room: Room): ReplayGame => {
+  const whiteIsHost = getWhiteRole(room) === 'host';
+  const guestName = room.guestNickname || '?';
+  return {
+    title: new Date(room.startedAt ?? room.createdAt).toLocaleString('ko-KR'),
+    whiteName: whiteIsHost ? room.hostNickname : guestName,
+    blackName: whiteIsHost ? guestName : room.hostNickname,
+    startFen: room.startFen || DEFAULT_POSITION,
+    moves: room.moves || [],
+    variant: room.variant
+  };
+};
+
 // 3D Chess Piece Component
 function ChessPiece3D({
   piece,
   position,
   isSelected,
   isValidMove,
-  onClick
+  isHint,
+  onClick,
+  onPointerUp
 }: {
   piece: ChessPiece | null;
   position: [number, number, number];
   isSelected: boolean;
   isValidMove: boolean;
+  isHint: boolean;
   onClick: () => void;
+  onPointerUp?: () => void;
 }) {
   // Enhanced colors with better contrast
   const isWhite = piece?.color === 'w';
@@ -37,8 +148,8 @@ function ChessPiece3D({
   // Material properties - black pieces more metallic/shiny
   const metalness = isWhite ? 0.15 : 0.75;
   const roughness = isWhite ? 0.3 : 0.15;
-  const emissive = isSelected ? '#22ff22' : isValidMove ? '#4488ff' : (isWhite ? '#000000' : '#4a3828');
-  const emissiveIntensity = isSelected ? 0.4 : isValidMove ? 0.3 : (isWhite ? 0 : 0.2);
+  const emissive = isSelected ? '#22ff22' : isValidMove ? '#4488ff' : isHint ? '#ffaa00' : (isWhite ? '#000000' : '#4a3828');
+  const emissiveIntensity = isSelected ? 0.4 : isValidMove ? 0.3 : isHint ? 0.5 : (isWhite ? 0 : 0.2);
 
   // Edge line material for black pieces - glowing silver/white lines
   const edgeMaterial = {
@@ -401,13 +512,13 @@ function ChessPiece3D({
   };
 
   return (
-    <group position={position} onClick={onClick}>
+    <group position={position} onClick={onClick} onPointerUp={onPointerUp}>
       {/* Square highlight */}
-      {(isSelected || isValidMove) && (
+      {(isSelected || isValidMove || isHint) && (
         <mesh position={[0, 0.03, 0]}>
           <boxGeometry args={[0.9, 0.02, 0.9]} />
           <meshBasicMaterial
-            color={isSelected ? '#00ff00' : '#4444ff'}
+            color={isSelected ? '#00ff00' : isValidMove ? '#4444ff' : '#ffaa00'}
             transparent
             opacity={0.6}
           />
@@ -425,13 +536,19 @@ function ChessBoard3D({
   selectedSquare,
   validMoves,
   onSquareClick,
-  myColor
+  myColor,
+  hintSquares = [],
+  glowSquares = [],
+  onSquareDrop
 }: {
   pieces: ChessPiece[];
   selectedSquare: string | null;
   validMoves: string[];
   onSquareClick: (square: string) => void;
   myColor: 'white' | 'black';
+  hintSquares?: string[];
+  glowSquares?: string[]; // 변형 규칙의 목표 칸 (킹 오브 더 힐 중앙)
+  onSquareDrop?: (square: string) => void; // 보드 편집기 - 팔레트에서 끌어온 기물을 놓은 칸
 }) {
   const files = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
   const ranks = ['1', '2', '3', '4', '5', '6', '7', '8'];
@@ -462,6 +579,7 @@ function ChessBoard3D({
           const piece = getPieceAtSquare(square);
           const isSelected = selectedSquare === square;
           const isValidMove = validMoves.includes(square);
+          const isGlowing = glowSquares.includes(square);
 
           return (
             <group key={square}>
@@ -469,9 +587,14 @@ function ChessBoard3D({
               <mesh
                 position={[x, 0.005, z]}
                 onClick={() => onSquareClick(square)}
+                onPointerUp={onSquareDrop && (() => onSquareDrop(square))}
               >
                 <boxGeometry args={[0.98, 0.01, 0.98]} />
-                <meshStandardMaterial color={isLight ? '#f0d9b5' : '#b58863'} />
+                <meshStandardMaterial
+                  color={isLight ? '#f0d9b5' : '#b58863'}
+                  emissive={isGlowing ? '#ffd700' : '#000000'}
+                  emissiveIntensity={isGlowing ? 0.6 : 0}
+                />
               </mesh>
 
               {/* Piece */}
@@ -480,7 +603,9 @@ function ChessBoard3D({
                 position={[x, 0, z]}
                 isSelected={isSelected}
                 isValidMove={isValidMove}
+                isHint={hintSquares.includes(square)}
                 onClick={() => onSquareClick(square)}
+                onPointerUp={onSquareDrop && (() => onSquareDrop(square))}
               />
             </group>
           );
@@ -490,19 +615,175 @@ function ChessBoard3D({
   );
 }
 
+// Board Canvas Component - 조명/카메라를 포함한 3D 보드 씬
+function BoardCanvas({
+  pieces,
+  selectedSquare,
+  validMoves,
+  onSquareClick,
+  myColor,
+  hintSquares,
+  glowSquares,
+  onSquareDrop
+}: {
+  pieces: ChessPiece[];
+  selectedSquare: string | null;
+  validMoves: string[];
+  onSquareClick: (square: string) => void;
+  myColor: 'white' | 'black';
+  hintSquares?: string[];
+  glowSquares?: string[];
+  onSquareDrop?: (square: string) => void;
+}) {
+  return (
+    <Canvas shadows camera={{ position: [0, 10, 10], fov: 45 }}>
+      {/* Starry space background */}
+      <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
+
+      {/* Ambient light for base illumination - warmer tone */}
+      <ambientLight intensity={0.3} color="#ffe4c4" />
+
+      {/* Main key light - warm sunlight from top-right */}
+      <directionalLight
+        position={[8, 15, 8]}
+        intensity={1.5}
+        color="#fff8e7"
+        castShadow
+        shadow-mapSize-width={2048}
+        shadow-mapSize-height={2048}
+        shadow-camera-far={50}
+        shadow-camera-left={-12}
+        shadow-camera-right={12}
+        shadow-camera-top={12}
+        shadow-camera-bottom={-12}
+        shadow-bias={-0.0001}
+      />
+
+      {/* Fill light - cooler tone from left */}
+      <directionalLight
+        position={[-8, 10, -8]}
+        intensity={0.5}
+        color="#b8d4ff"
+      />
+
+      {/* Rim/Back light - dramatic edge lighting */}
+      <directionalLight
+        position={[0, 8, -12]}
+        intensity={0.6}
+        color="#ffd700"
+      />
+
+      {/* Top spotlight for dramatic center focus */}
+      <spotLight
+        position={[0, 20, 0]}
+        angle={0.5}
+        penumbra={0.8}
+        intensity={0.8}
+        color="#ffffff"
+        castShadow
+        shadow-mapSize-width={1024}
+        shadow-mapSize-height={1024}
+      />
+
+      {/* Accent point lights for piece highlighting */}
+      <pointLight position={[5, 6, 5]} intensity={0.3} color="#ff6b6b" distance={15} />
+      <pointLight position={[-5, 6, -5]} intensity={0.3} color="#4dabf7" distance={15} />
+
+      {/* Central hemisphere light for soft fill */}
+      <hemisphereLight
+        args={['#87ceeb', '#2d1b0e', 0.4]}
+      />
+      <ChessBoard3D
+        pieces={pieces}
+        selectedSquare={selectedSquare}
+        validMoves={validMoves}
+        onSquareClick={onSquareClick}
+        myColor={myColor}
+        hintSquares={hintSquares}
+        glowSquares={glowSquares}
+        onSquareDrop={onSquareDrop}
+      />
+      <OrbitControls
+        enablePan={true}
+        minDistance={8}
+        maxDistance={30}
+        minPolarAngle={Math.PI / 6}
+        maxPolarAngle={Math.PI / 2.5}
+      />
+    </Canvas>
+  );
+}
+
+// Eval Bar Component - 현재 국면 평가 (아래쪽이 내 색)
+function EvalBar({ score, orientation }: { score: number | null; orientation: 'white' | 'black' }) {
+  const whitePercent = score === null ? 50 : toWinPercent(score);
+
+  return (
+    <div className={`eval-bar ${orientation === 'black' ? 'flipped' : ''}`} title="엔진 평가 (백 기준)">
+      <div className="eval-bar-white" style={{ flexBasis: `${whitePercent}%` }} />
+      <span className="eval-bar-value">{score === null ? '…' : formatEval(score)}</span>
+    </div>
+  );
+}
+
+// 평가 막대 / 힌트 상태 - 결과는 계산한 국면(fen)과 함께 저장해 국면이 바뀌면 무효
+// onAssist는 평가나 힌트를 실제로 보여줄 때마다 호출 (방에 보조 사용 기록)
+const useEngineAssist = (fen: string, showEval: boolean, onAssist: () => void) => {
+  const [evaluation, setEvaluation] = useState<{ fen: string; score: number } | null>(null);
+  const [hint, setHint] = useState<{ fen: string; squares: string[] } | null>(null);
+  const [isHintLoading, setIsHintLoading] = useState(false);
+  const onAssistRef = useRef(onAssist);
+
+  useEffect(() => {
+    onAssistRef.current = onAssist;
+  });
+
+  useEffect(() => {
+    if (!showEval) return;
+
+    let cancelled = false;
+    requestBestMove(fen, 2)
+      .then(({ score }) => {
+        if (cancelled) return;
+        setEvaluation({ fen, score });
+        onAssistRef.current();
+      })
+      .catch((error) => console.error('평가 실패:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fen, showEval]);
+
+  const requestHint = async () => {
+    onAssist();
+    setIsHintLoading(true);
+    try {
+      const { move } = await requestBestMove(fen, 2);
+      setHint({ fen, squares: move ? [move.from, move.to] : [] });
+    } catch (error) {
+      console.error('힌트 계산 실패:', error);
+    } finally {
+      setIsHintLoading(false);
+    }
+  };
+
+  return {
+    evalScore: evaluation?.score ?? null,
+    hintSquares: hint?.fen === fen ? hint.squares : [],
+    isHintLoading,
+    requestHint
+  };
+};
+
 // Leaderboard Component
 function Leaderboard() {
   const [users, setUsers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    const usersRef = ref(db, 'users');
-
-
-    onValue(usersRef, (snapshot) => {
-      const data = snapshot.val();
-      if (data) {
-        const userList = Object.values(data) as User[];
+    return userStore.subscribeUsers((userList) => {
+      if (userList.length > 0) {
         // 승률 기준 정렬 (게임 수가 0인 경우 제외)
         const sortedUsers = userList
           .map(user => ({
@@ -532,8 +813,6 @@ function Leaderboard() {
       }
       setIsLoading(false);
     });
-
-    return () => off(usersRef);
   }, []);
 
   const getWinRate = (user: User) => {
@@ -603,210 +882,1403 @@ function Leaderboard() {
 
 // Timer Component
 
-function Timer({ timeLeft, isMyTurn }: { timeLeft: number; isMyTurn: boolean }) {
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
-  };
-
+function Timer({ timeLeft, isActive, label }: { timeLeft: number; isActive: boolean; label: string }) {
   return (
-    <div className={`timer ${isMyTurn ? 'active' : ''} ${timeLeft <= 10 ? 'warning' : ''}`}>
-      <span className="timer-label">{isMyTurn ? '내 차례' : '상대 차례'}</span>
-      <span className="timer-value">{formatTime(timeLeft)}</span>
+    <div className={`timer ${isActive ? 'active' : ''} ${timeLeft <= 10_000 ? 'warning' : ''}`}>
+      <span className="timer-label">{label}</span>
+      <span className="timer-value">{formatClock(timeLeft)}</span>
     </div>
   );
 }
 
-// Chat Component
-function Chat({
-  messages,
-  onSendMessage,
-  myName
+// Move List Component - 기보 (백/흑 2열)
+function MoveList({
+  moves,
+  startFen,
+  currentIndex,
+  onSelectMove,
+  judgements
 }: {
-  messages: ChatMessage[];
-  onSendMessage: (text: string) => void;
-  myName: string;
+  moves: MoveRecord[];
+  startFen?: string;
+  currentIndex: number;
+  onSelectMove?: (index: number) => void;
+  judgements?: (MoveJudgement | null)[];
 }) {
-  const [inputText, setInputText] = useState('');
-  const [isOpen, setIsOpen] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const currentRef = useRef<HTMLSpanElement>(null);
 
-  // Auto-scroll to bottom when new messages arrive
+  // 현재 수가 보이도록 스크롤
   useEffect(() => {
-    if (messagesEndRef.current) {
-      messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
-    }
-  }, [messages]);
-
-  const handleSend = () => {
-    if (inputText.trim()) {
-      onSendMessage(inputText.trim());
-      setInputText('');
-    }
-  };
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentIndex, moves.length]);
+
+  // 흑이 먼저 둔 게임은 첫 줄의 백 칸을 비운다
+  const { whiteFirst, firstMoveNumber } = getMoveNumbering(startFen);
+  const offset = whiteFirst ? 0 : 1;
+  const slots = moves.length > 0 ? moves.length + offset : 0;
+  const rows: { number: number; whiteIndex: number }[] = [];
+  for (let slot = 0; slot < slots; slot += 2) {
+    rows.push({ number: firstMoveNumber + slot / 2, whiteIndex: slot - offset });
+  }
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
-      e.preventDefault();
-      handleSend();
-    }
+  const renderMove = (move: MoveRecord | undefined, index: number) => {
+    if (!move) return <span className="move-san" />;
+    const isCurrent = index === currentIndex;
+    const judgement = judgements?.[index];
+    return (
+      <span
+        ref={isCurrent ? currentRef : undefined}
+        className={`move-san ${isCurrent ? 'current' : ''} ${onSelectMove ? 'clickable' : ''} ${judgement ?? ''}`}
+        onClick={onSelectMove ? () => onSelectMove(index) : undefined}
+        title={`${move.from} → ${move.to} (${Math.round(move.timeSpent / 1000)}초)`}
+      >
+        {move.san}
+        {judgement && JUDGEMENT_SYMBOLS[judgement]}
+      </span>
+    );
   };
 
   return (
-    <div className={`chat-container ${isOpen ? 'open' : 'closed'}`}>
-      <button className="chat-toggle" onClick={() => setIsOpen(!isOpen)}>
-        💬 {isOpen ? '채팅 닫기' : '채팅 열기'}
-        {!isOpen && messages.length > 0 && (
-          <span className="chat-badge">{messages.length}</span>
+    <div className="move-list">
+      <h3 className="move-list-title">📜 기보</h3>
+      <div className="move-list-rows">
+        {rows.length === 0 ? (
+          <p className="move-list-empty">아직 둔 수가 없습니다</p>
+        ) : (
+          rows.map((row) => (
+            <div key={row.number} className="move-row">
+              <span className="move-number">{row.number}.</span>
+              {renderMove(moves[row.whiteIndex], row.whiteIndex)}
+              {renderMove(moves[row.whiteIndex + 1], row.whiteIndex + 1)}
+            </div>
+          ))
         )}
-      </button>
+      </div>
+    </div>
+  );
+}
 
-      {isOpen && (
-        <div className="chat-panel">
-          <div className="chat-messages">
-            {messages.length === 0 ? (
-              <p className="chat-empty">메시지가 없습니다</p>
-            ) : (
-              messages.map((msg) => (
-                <div
-                  key={msg.id}
-                  className={`chat-message ${msg.senderName === myName ? 'mine' : 'theirs'}`}
-                >
-                  <span className="chat-sender">{msg.senderName}</span>
-                  <span className="chat-text">{msg.text}</span>
-                </div>
-              ))
-            )}
-            <div ref={messagesEndRef} />
-          </div>
-          <div className="chat-input-area">
-            <input
-              type="text"
-              value={inputText}
-              onChange={(e) => setInputText(e.target.value)}
-              onKeyPress={handleKeyPress}
-              placeholder="메시지 입력..."
-              maxLength={100}
-            />
-            <button onClick={handleSend} className="chat-send">
-              전송
-            </button>
-          </div>
-        </div>
+// Opening Explorer Component - 내장 오프닝 북의 다음 수
+function OpeningExplorer({ fen, onClose }: { fen: string; onClose: () => void }) {
+  const bookMoves = useMemo(() => getBookMoves(fen), [fen]);
+
+  return (
+    <div className="opening-explorer">
+      <div className="opening-explorer-header">
+        <h3>📖 오프닝 탐색</h3>
+        <button onClick={onClose} className="btn-explorer-close" title="닫기">✖</button>
+      </div>
+      {bookMoves.length === 0 ? (
+        <p className="opening-explorer-empty">북에 없는 국면입니다</p>
+      ) : (
+        <ul className="opening-explorer-list">
+          {bookMoves.map(({ san, lines, opening }) => (
+            <li key={san}>
+              <span className="explorer-san">{san}</span>
+              <span className="explorer-opening">{opening ? `${opening.eco} ${opening.name}` : ''}</span>
+              <span className="explorer-lines">{lines}</span>
+            </li>
+          ))}
+        </ul>
       )}
     </div>
   );
 }
 
-// Paused Overlay Component - 상대방 연결 끊김 시 표시
-function PausedOverlay({ disconnectedAt }: { disconnectedAt: number }) {
-  const [remainingTime, setRemainingTime] = useState(60);
+// Opening Label Component - 헤더용 ECO 코드 + 이름
+function OpeningLabel({ opening }: { opening: Opening | null }) {
+  if (!opening) return null;
+  return (
+    <span className="opening-label" title={opening.name}>
+      📖 <strong>{opening.eco}</strong> {opening.name}
+    </span>
+  );
+}
+
+// Variant Label Component - 변형 규칙 이름 / 설명 (3체크는 체크 횟수)
+function VariantLabel({ room }: { room: Room }) {
+  const rules = getVariantRules(room);
+  if (getVariant(room) === 'standard') return null;
+
+  const checks = rules.countsChecks ? getCheckCounts(room) : null;
+  return (
+    <span className="variant-label" title={rules.description}>
+      🎲 <strong>{rules.label}</strong>
+      {checks ? ` · ✚ 백 ${checks.white} / 흑 ${checks.black}` : ` · ${rules.description}`}
+    </span>
+  );
+}
+
+// Replay Viewer Component - 기보 다시보기 (보드 조작 불가)
+function ReplayViewer({ game, onClose }: { game: ReplayGame; onClose: () => void }) {
+  const positions = useMemo(() => getPositions(game.startFen, game.moves, game), [game]);
+  const lastPly = positions.length - 1;
+  const [ply, setPly] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1); // 수당 초
+  const [orientation, setOrientation] = useState<'white' | 'black'>('white');
+  const [showExplorer, setShowExplorer] = useState(false);
 
+  const pieces = useMemo(() => getPieces(loadChess(positions[ply])), [positions, ply]);
+  const opening = useMemo(() => getOpening(game.startFen, game.moves.slice(0, ply)), [game, ply]);
+
+  // 자동 재생
   useEffect(() => {
-    const timer = setInterval(() => {
-      const elapsed = Math.floor((Date.now() - disconnectedAt) / 1000);
-      const remaining = Math.max(0, 60 - elapsed);
-      setRemainingTime(remaining);
-    }, 1000);
+    if (!isPlaying || ply >= lastPly) return;
 
-    return () => clearInterval(timer);
-  }, [disconnectedAt]);
+    const timer = setTimeout(() => {
+      if (ply + 1 >= lastPly) setIsPlaying(false);
+      setPly(ply + 1);
+    }, speed * 1000);
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
+    return () => clearTimeout(timer);
+  }, [isPlaying, ply, lastPly, speed]);
+
+  const goTo = (target: number) => {
+    setIsPlaying(false);
+    setPly(Math.max(0, Math.min(lastPly, target)));
+  };
+
+  const togglePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // 끝에서 재생하면 처음부터
+    if (ply >= lastPly) setPly(0);
+    setIsPlaying(true);
   };
 
   return (
-    <div className="paused-overlay">
-      <div className="paused-content">
-        <div className="paused-icon">⏳</div>
-        <h2>상대방 연결 대기 중...</h2>
-        <div className="paused-timer">{formatTime(remainingTime)}</div>
-        <p>상대방이 1분 내로 돌아오지 않으면<br />자동으로 승리합니다</p>
+    <div className="game-container replay-viewer">
+      <div className="game-header">
+        <div className="header-controls">
+          <div className="control-buttons replay-controls">
+            <button onClick={() => goTo(0)} className="btn-control btn-replay" title="처음">⏮</button>
+            <button onClick={() => goTo(ply - 1)} className="btn-control btn-replay" title="이전">◀</button>
+            <button onClick={togglePlay} className="btn-control btn-replay" title="자동 재생">
+              {isPlaying ? '⏸' : '▶️'}
+            </button>
+            <button onClick={() => goTo(ply + 1)} className="btn-control btn-replay" title="다음">▶</button>
+            <button onClick={() => goTo(lastPly)} className="btn-control btn-replay" title="마지막">⏭</button>
+            <button
+              onClick={() => setOrientation(orientation === 'white' ? 'black' : 'white')}
+              className="btn-control btn-replay"
+              title="보드 뒤집기"
+            >
+              🔄
+            </button>
+            <button
+              onClick={() => setShowExplorer(!showExplorer)}
+              className="btn-control btn-replay"
+              title="오프닝 탐색"
+            >
+              📖
+            </button>
+            <button onClick={onClose} className="btn-control btn-home-game">🏠 닫기</button>
+          </div>
+        </div>
+        <div className="header-players replay-info">
+          <span className="replay-title">{game.title}</span>
+          <span className="replay-names">♔ {game.whiteName} vs ♚ {game.blackName}</span>
+          <OpeningLabel opening={opening} />
+          <label className="replay-speed">
+            속도 {speed}초
+            <input
+              type="range"
+              min={0.25}
+              max={3}
+              step={0.25}
+              value={speed}
+              onChange={(e) => setSpeed(Number(e.target.value))}
+            />
+          </label>
+          <span className="replay-ply">{ply} / {lastPly}</span>
+        </div>
+      </div>
+
+      <div className="game-main">
+        <MoveList
+          moves={game.moves.slice(0, lastPly)}
+          startFen={game.startFen}
+          currentIndex={ply - 1}
+          onSelectMove={(index) => goTo(index + 1)}
+        />
+        <div className="game-canvas">
+          <BoardCanvas
+            pieces={pieces}
+            selectedSquare={null}
+            validMoves={[]}
+            onSquareClick={() => {}}
+            myColor={orientation}
+          />
+          {showExplorer && <OpeningExplorer fen={positions[ply]} onClose={() => setShowExplorer(false)} />}
+        </div>
       </div>
     </div>
   );
 }
 
-// Result Popup Component
-function ResultPopup({
-  winner,
-  isHost,
-  hostNickname,
-  guestNickname,
-  onPlayAgain
+const JUDGEMENT_SYMBOLS: Record<MoveJudgement, string> = {
+  inaccuracy: '?!',
+  mistake: '?',
+  blunder: '??'
+};
+
+const JUDGEMENT_LABELS: Record<MoveJudgement, string> = {
+  inaccuracy: '부정확한 수',
+  mistake: '실수',
+  blunder: '블런더'
+};
+
+// 평가치 표시 (백 기준, 메이트는 #)
+const formatEval = (score: number): string => {
+  if (Math.abs(score) >= MATE_SCORE - 1000) return score > 0 ? '#+' : '#-';
+  const pawns = score / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(1)}`;
+};
+
+// Eval Graph Component - 국면별 평가 그래프 (클릭하면 해당 수로 이동)
+function EvalGraph({
+  evals,
+  moves,
+  currentPly,
+  onSelectPly
 }: {
-  winner: 'host' | 'guest' | 'draw';
-  isHost: boolean;
-  hostNickname: string;
-  guestNickname: string;
-  onPlayAgain: () => void;
+  evals: number[];
+  moves: MoveAnalysis[];
+  currentPly: number;
+  onSelectPly: (ply: number) => void;
 }) {
-  const getResultMessage = () => {
-    if (winner === 'draw') return '무승부!';
-    const winnerName = winner === 'host' ? hostNickname : guestNickname;
-    const iWon = (winner === 'host' && isHost) || (winner === 'guest' && !isHost);
-    return iWon ? '🎉 승리!' : `${winnerName} 승리`;
+  const width = 600;
+  const height = 120;
+  const lastPly = Math.max(1, evals.length - 1);
+  const toX = (ply: number) => (ply / lastPly) * width;
+  const toY = (score: number) => height / 2 - (Math.max(-1000, Math.min(1000, score)) / 1000) * (height / 2);
+
+  const line = evals.map((score, ply) => `${toX(ply)},${toY(score)}`).join(' ');
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSelectPly(Math.round(((e.clientX - rect.left) / rect.width) * lastPly));
   };
 
   return (
-    <div className="popup-overlay">
-      <div className="popup">
-        <h2>{getResultMessage()}</h2>
-        <p>패자가 다음 게임에서 선공합니다</p>
-        <button onClick={onPlayAgain} className="btn-primary">
-          다시 하기
-        </button>
-      </div>
-    </div>
+    <svg className="eval-graph" viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" onClick={handleClick}>
+      {/* 백 우세 영역 */}
+      <polygon points={`0,${height} ${line} ${toX(evals.length - 1)},${height}`} className="eval-graph-white" />
+      <line x1={0} y1={height / 2} x2={width} y2={height / 2} className="eval-graph-axis" />
+      <line x1={toX(currentPly)} y1={0} x2={toX(currentPly)} y2={height} className="eval-graph-cursor" />
+      {moves.filter(move => move.judgement).map(move => (
+        <circle
+          key={move.ply}
+          cx={toX(move.ply)}
+          cy={toY(move.evalAfter)}
+          r={4}
+          className={`eval-graph-dot ${move.judgement}`}
+        />
+      ))}
+    </svg>
   );
 }
 
-// Simple hash function for password (for demo purposes - use proper hashing in production!)
-const simpleHash = (str: string): string => {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return Math.abs(hash).toString(16);
-};
-
-// Lobby Component
-function Lobby({
-  onCreateRoom,
-  onJoinRoom
-}: {
-  onCreateRoom: (nickname: string, isPrivate: boolean) => void;
-  onJoinRoom: (code: string, nickname: string) => void;
-}) {
-  const [mode, setMode] = useState<'menu' | 'create' | 'join' | 'register' | 'login'>('menu');
-  const [nickname, setNickname] = useState('');
-  const [roomCode, setRoomCode] = useState('');
+// Analysis Report Component - 대국 후 엔진 분석 (워커에서 실행)
+function AnalysisReport({ game, onClose }: { game: ReplayGame; onClose: () => void }) {
+  const positions = useMemo(() => getPositions(game.startFen, game.moves, game), [game]);
+  const lastPly = positions.length - 1;
+  const [analysis, setAnalysis] = useState<GameAnalysis | null>(null);
+  const [progress, setProgress] = useState(0);
   const [error, setError] = useState('');
-  const [success, setSuccess] = useState('');
-  const [isPrivate, setIsPrivate] = useState(false);
-  const [availableRooms, setAvailableRooms] = useState<Room[]>([]);
+  const [ply, setPly] = useState(0);
+  const [orientation, setOrientation] = useState<'white' | 'black'>('white');
 
-  // Auth states
-  const [username, setUsername] = useState('');
-  const [password, setPassword] = useState('');
-  const [confirmPassword, setConfirmPassword] = useState('');
-  const [adminCode, setAdminCode] = useState('');
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const pieces = useMemo(() => getPieces(loadChess(positions[ply])), [positions, ply]);
 
-  // Check if user is already logged in (from localStorage)
   useEffect(() => {
-    const savedUser = localStorage.getItem('chessUser');
-    if (savedUser) {
-      const user = JSON.parse(savedUser) as User;
-      setCurrentUser(user);
+    const controller = new AbortController();
+    const { signal } = controller;
+    analyzeGame(game.startFen, game.moves, game.variant, (done, total) => {
+      if (!signal.aborted) setProgress(Math.round((done / total) * 100));
+    }, signal)
+      .then((result) => {
+        if (!signal.aborted) setAnalysis(result);
+      })
+      .catch((error) => {
+        if (signal.aborted) return;
+        console.error('분석 실패:', error);
+        setError('분석 중 오류가 발생했습니다');
+      });
+
+    return () => controller.abort();
+  }, [game]);
+
+  const goTo = (target: number) => {
+    setPly(Math.max(0, Math.min(lastPly, target)));
+  };
+
+  const countJudgements = (color: 'white' | 'black', judgement: MoveJudgement) => {
+    return analysis?.moves.filter(move => move.color === color && move.judgement === judgement).length ?? 0;
+  };
+
+  const renderSummary = (color: 'white' | 'black', name: string) => (
+    <div className="analysis-player">
+      <span className="analysis-name">{color === 'white' ? '♔' : '♚'} {name}</span>
+      <span className="analysis-accuracy">정확도 {analysis ? analysis.accuracy[color].toFixed(1) : '-'}%</span>
+      <span className="analysis-counts">
+        {(['inaccuracy', 'mistake', 'blunder'] as const).map(judgement => (
+          <span key={judgement} className={`analysis-count ${judgement}`}>
+            {JUDGEMENT_LABELS[judgement]} {countJudgements(color, judgement)}
+          </span>
+        ))}
+      </span>
+    </div>
+  );
+
+  const current = ply > 0 ? analysis?.moves[ply - 1] : undefined;
+
+  return (
+    <div className="game-container replay-viewer">
+      <div className="game-header">
+        <div className="header-controls">
+          <div className="control-buttons replay-controls">
+            <button onClick={() => goTo(0)} className="btn-control btn-replay" title="처음">⏮</button>
+            <button onClick={() => goTo(ply - 1)} className="btn-control btn-replay" title="이전">◀</button>
+            <button onClick={() => goTo(ply + 1)} className="btn-control btn-replay" title="다음">▶</button>
+            <button onClick={() => goTo(lastPly)} className="btn-control btn-replay" title="마지막">⏭</button>
+            <button
+              onClick={() => setOrientation(orientation === 'white' ? 'black' : 'white')}
+              className="btn-control btn-replay"
+              title="보드 뒤집기"
+            >
+              🔄
+            </button>
+            <button onClick={onClose} className="btn-control btn-home-game">✖ 닫기</button>
+          </div>
+        </div>
+        <div className="header-players analysis-summary">
+          {renderSummary('white', game.whiteName)}
+          {renderSummary('black', game.blackName)}
+        </div>
+      </div>
+
+      <div className="game-main">
+        <MoveList
+          moves={game.moves.slice(0, lastPly)}
+          startFen={game.startFen}
+          currentIndex={ply - 1}
+          onSelectMove={(index) => goTo(index + 1)}
+          judgements={analysis?.moves.map(move => move.judgement)}
+        />
+        <div className="game-canvas">
+          <BoardCanvas
+            pieces={pieces}
+            selectedSquare={null}
+            validMoves={[]}
+            onSquareClick={() => {}}
+            myColor={orientation}
+          />
+        </div>
+      </div>
+
+      <div className="analysis-panel">
+        {error && <p className="error">{error}</p>}
+        {!analysis && !error && (
+          <div className="analysis-progress">
+            <span>🔍 분석 중... {progress}%</span>
+            <div className="analysis-progress-bar">
+              <div style={{ width: `${progress}%` }} />
+            </div>
+          </div>
+        )}
+        {analysis && (
+          <>
+            <EvalGraph evals={analysis.evals} moves={analysis.moves} currentPly={ply} onSelectPly={goTo} />
+            <p className="analysis-comment">
+              <span className="analysis-eval">{formatEval(analysis.evals[ply])}</span>
+              {current ? (
+                <>
+                  {getMoveNumbering(positions[current.ply - 1]).firstMoveNumber}{current.color === 'white' ? '.' : '...'} {current.san}
+                  {current.judgement && (
+                    <span className={`analysis-judgement ${current.judgement}`}>
+                      {' '}— {JUDGEMENT_LABELS[current.judgement]}
+                      {current.bestMove && ` (더 나은 수: ${current.bestMove})`}
+                    </span>
+                  )}
+                </>
+              ) : (
+                '시작 국면'
+              )}
+            </p>
+            <p className="analysis-limit">
+              내장 엔진으로 {analysis.depth}수 이상 (국면당 최대 {ANALYSIS_TIME_MS / 1000}초) 탐색한 결과입니다.
+              더 깊은 전술이나 희생 수는 잘못 판정될 수 있습니다.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Puzzle Mode Component - 내장 퍼즐 풀기 (상대 응수는 자동)
+function PuzzleMode({ onClose }: { onClose: () => void }) {
+  const [user, setUser] = useState<User | null>(() => {
+    const savedUser = localStorage.getItem('chessUser');
+    return savedUser ? (JSON.parse(savedUser) as User) : null;
+  });
+  const [rating, setRating] = useState(user?.puzzleRating ?? DEFAULT_PUZZLE_RATING);
+  const [puzzle, setPuzzle] = useState<Puzzle>(() => pickPuzzle(rating));
+  const [chess] = useState(() => new Chess(puzzle.fen));
+  const [pieces, setPieces] = useState<ChessPiece[]>(() => getPieces(chess));
+  const [step, setStep] = useState(0);
+  const [status, setStatus] = useState<'playing' | 'solved' | 'failed'>('playing');
+  const [hasMistake, setHasMistake] = useState(false);
+  const [feedback, setFeedback] = useState('');
+  const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
+  const [validMoves, setValidMoves] = useState<string[]>([]);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: string; to: string } | null>(null);
+
+  // 푸는 쪽 색 (퍼즐 시작 국면의 차례)
+  const solverColor = toPlayerColor(new Chess(puzzle.fen).turn());
+  const isSolverTurn = status === 'playing' && step % 2 === 0;
+
+  // 퍼즐당 한 번만 레이팅 반영 (처음 틀리거나 한 번에 풀었을 때)
+  const recordResult = async (solved: boolean) => {
+    const newRating = getNewPuzzleRating(rating, puzzle.rating, solved);
+    setRating(newRating);
+    if (!user) return;
+
+    try {
+      const updated = await recordPuzzleResult(user.id, puzzle, solved);
+      if (!updated) return;
+      const savedUser = { ...user, puzzleRating: updated.puzzleRating, puzzlesSolved: updated.puzzlesSolved };
+      localStorage.setItem('chessUser', JSON.stringify(savedUser));
+      setUser(savedUser);
+      setRating(updated.puzzleRating ?? newRating);
+    } catch (error) {
+      console.error('퍼즐 기록 저장 실패:', error);
+    }
+  };
+
+  const playUci = (uci: string) => {
+    return tryMove(chess, uci.slice(0, 2), uci.slice(2, 4), uci[4] as PieceType | undefined);
+  };
+
+  const handleMove = (from: string, to: string, promotion?: PieceType) => {
+    setSelectedSquare(null);
+    setValidMoves([]);
+    setPendingPromotion(null);
+
+    const move = tryMove(chess, from, to, promotion);
+    if (!move) return;
+
+    if (!isPuzzleMoveCorrect(puzzle, step, move, chess)) {
+      chess.undo();
+      setFeedback('❌ 틀렸습니다. 다시 생각해보세요');
+      if (!hasMistake) {
+        setHasMistake(true);
+        recordResult(false);
+      }
+      return;
+    }
+
+    setPieces(getPieces(chess));
+    const nextStep = step + 1;
+    if (nextStep >= puzzle.moves.length) {
+      setStep(nextStep);
+      setStatus('solved');
+      setFeedback(hasMistake ? '✅ 해결! (레이팅에는 처음 시도만 반영됩니다)' : '🎉 정답입니다!');
+      if (!hasMistake) recordResult(true);
+      return;
+    }
+
+    // 상대 응수 자동 진행
+    setStep(nextStep);
+    setFeedback('👍 좋은 수입니다! 계속하세요');
+    setTimeout(() => {
+      playUci(puzzle.moves[nextStep]);
+      setPieces(getPieces(chess));
+      setStep(nextStep + 1);
+    }, 600);
+  };
+
+  const handleSquareClick = (square: string) => {
+    if (!isSolverTurn) return;
+
+    if (selectedSquare && validMoves.includes(square)) {
+      const isPromotion = chess.moves({ square: selectedSquare as Square, verbose: true })
+        .some(m => m.to === square && m.promotion);
+      if (isPromotion) {
+        setPendingPromotion({ from: selectedSquare, to: square });
+      } else {
+        handleMove(selectedSquare, square);
+      }
+      return;
+    }
+
+    const piece = chess.get(square as Square);
+    if (piece && piece.color === solverColor[0]) {
+      setSelectedSquare(square);
+      setValidMoves(chess.moves({ square: square as Square, verbose: true }).map(m => m.to));
+    } else {
+      setSelectedSquare(null);
+      setValidMoves([]);
+    }
+  };
+
+  // 해답 보기 - 남은 수를 모두 두고 실패 처리
+  const handleShowSolution = () => {
+    for (const uci of puzzle.moves.slice(step)) {
+      playUci(uci);
+    }
+    setPieces(getPieces(chess));
+    setStep(puzzle.moves.length);
+    setStatus('failed');
+    setFeedback(`💡 해답: ${puzzle.moves.join(' ')}`);
+    if (!hasMistake) {
+      setHasMistake(true);
+      recordResult(false);
+    }
+  };
+
+  const handleNext = () => {
+    const next = pickPuzzle(rating, puzzle.id);
+    chess.load(next.fen);
+    setPuzzle(next);
+    setPieces(getPieces(chess));
+    setStep(0);
+    setStatus('playing');
+    setHasMistake(false);
+    setFeedback('');
+    setSelectedSquare(null);
+    setValidMoves([]);
+  };
+
+  return (
+    <div className="game-container puzzle-mode">
+      <div className="game-header">
+        <div className="header-controls">
+          <div className="control-buttons">
+            {status === 'playing' ? (
+              <button onClick={handleShowSolution} className="btn-control btn-replay" disabled={!isSolverTurn}>
+                💡 해답 보기
+              </button>
+            ) : (
+              <button onClick={handleNext} className="btn-control btn-start">➡️ 다음 퍼즐</button>
+            )}
+            <button onClick={onClose} className="btn-control btn-home-game">🏠 닫기</button>
+          </div>
+        </div>
+        <div className="header-players replay-info">
+          <span className="replay-title">🧩 퍼즐 #{puzzle.id} (레이팅 {puzzle.rating})</span>
+          <span className="replay-names">{solverColor === 'white' ? '♔ 백' : '♚ 흑'} 차례 · {puzzle.themes.join(', ')}</span>
+          <span className="puzzle-rating">
+            내 레이팅 {rating}
+            {user && ` · ${user.puzzlesSolved ?? 0}문제 해결`}
+          </span>
+        </div>
+        {feedback && <p className={`puzzle-feedback ${status}`}>{feedback}</p>}
+      </div>
+
+      <div className="game-main">
+        <div className="game-canvas">
+          <BoardCanvas
+            pieces={pieces}
+            selectedSquare={selectedSquare}
+            validMoves={validMoves}
+            onSquareClick={handleSquareClick}
+            myColor={solverColor}
+          />
+        </div>
+      </div>
+
+      {pendingPromotion && (
+        <PromotionPicker
+          color={solverColor}
+          onSelect={(piece) => handleMove(pendingPromotion.from, pendingPromotion.to, piece)}
+          onCancel={() => setPendingPromotion(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+// 보드 편집기 팔레트 (백 / 흑 기물)
+const PALETTE_PIECES: { type: PieceType; color: PieceColor; symbol: string; label: string }[] = [
+  { type: 'k', color: 'w', symbol: '♔', label: '백 킹' },
+  { type: 'q', color: 'w', symbol: '♕', label: '백 퀸' },
+  { type: 'r', color: 'w', symbol: '♖', label: '백 룩' },
+  { type: 'b', color: 'w', symbol: '♗', label: '백 비숍' },
+  { type: 'n', color: 'w', symbol: '♘', label: '백 나이트' },
+  { type: 'p', color: 'w', symbol: '♙', label: '백 폰' },
+  { type: 'k', color: 'b', symbol: '♚', label: '흑 킹' },
+  { type: 'q', color: 'b', symbol: '♛', label: '흑 퀸' },
+  { type: 'r', color: 'b', symbol: '♜', label: '흑 룩' },
+  { type: 'b', color: 'b', symbol: '♝', label: '흑 비숍' },
+  { type: 'n', color: 'b', symbol: '♞', label: '흑 나이트' },
+  { type: 'p', color: 'b', symbol: '♟', label: '흑 폰' }
+];
+
+// Board Editor Component - 팔레트의 기물을 보드로 끌어다 놓거나 (또는 골라서 칸 클릭) 시작 국면을 만든다
+function BoardEditor({
+  initialFen,
+  onClose,
+  onUsePosition
+}: {
+  initialFen: string | null;
+  onClose: () => void;
+  onUsePosition: (fen: string) => void;
+}) {
+  const [setup, setSetup] = useState<PositionSetup>(() => fenToSetup(initialFen ?? DEFAULT_POSITION) ?? createEmptySetup());
+  const [tool, setTool] = useState<Pick<ChessPiece, 'type' | 'color'> | 'erase' | null>(null);
+  const [dragPiece, setDragPiece] = useState<Pick<ChessPiece, 'type' | 'color'> | null>(null);
+  const [orientation, setOrientation] = useState<'white' | 'black'>('white');
+  const [fenInput, setFenInput] = useState('');
+  const [fenError, setFenError] = useState('');
+
+  const fen = setupToFen(setup);
+  const error = validateSetup(setup);
+  const epCandidates = getEnPassantCandidates(setup);
+
+  // 보드 밖에서 손을 떼면 끌기 취소 (보드 칸의 onPointerUp이 먼저 처리된다)
+  useEffect(() => {
+    if (!dragPiece) return;
+    const cancelDrag = () => setDragPiece(null);
+    window.addEventListener('pointerup', cancelDrag);
+    return () => window.removeEventListener('pointerup', cancelDrag);
+  }, [dragPiece]);
+
+  // 칸에 기물 놓기 (null이면 지우기) - 킹은 같은 색 킹을 옮긴다
+  const placePiece = (square: string, piece: Pick<ChessPiece, 'type' | 'color'> | null) => {
+    setSetup(prev => ({
+      ...prev,
+      pieces: [
+        ...prev.pieces.filter(p => p.square !== square && !(piece?.type === 'k' && p.type === 'k' && p.color === piece.color)),
+        ...(piece ? [{ ...piece, square }] : [])
+      ]
+    }));
+  };
+
+  const handleSquareClick = (square: string) => {
+    if (tool === 'erase') placePiece(square, null);
+    else if (tool) placePiece(square, tool);
+  };
+
+  const handleSquareDrop = (square: string) => {
+    if (dragPiece) placePiece(square, dragPiece);
+  };
+
+  // 팔레트에서 누르면 선택 + 끌기 시작 (터치는 암묵적 포인터 캡처를 풀어야 보드가 pointerup을 받는다)
+  const handlePalettePointerDown = (e: React.PointerEvent<HTMLButtonElement>, piece: Pick<ChessPiece, 'type' | 'color'>) => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    setTool(piece);
+    setDragPiece(piece);
+  };
+
+  const handleLoadFen = () => {
+    const next = fenToSetup(fenInput);
+    if (!next) {
+      setFenError('FEN 형식이 올바르지 않습니다');
+      return;
+    }
+    setSetup(next);
+    setFenInput('');
+    setFenError('');
+  };
+
+  const toggleCastling = (right: keyof PositionSetup['castling']) => {
+    setSetup(prev => ({ ...prev, castling: { ...prev.castling, [right]: !prev.castling[right] } }));
+  };
+
+  const isToolSelected = (piece: Pick<ChessPiece, 'type' | 'color'>) => {
+    return tool !== null && tool !== 'erase' && tool.type === piece.type && tool.color === piece.color;
+  };
+
+  return (
+    <div className="game-container board-editor">
+      <div className="game-header">
+        <div className="header-controls">
+          <div className="control-buttons">
+            <button onClick={() => setSetup(fenToSetup(DEFAULT_POSITION) ?? createEmptySetup())} className="btn-control btn-replay">
+              ♟️ 시작 배치
+            </button>
+            <button onClick={() => setSetup(createEmptySetup())} className="btn-control btn-replay">
+              🧹 비우기
+            </button>
+            <button
+              onClick={() => setOrientation(orientation === 'white' ? 'black' : 'white')}
+              className="btn-control btn-replay"
+            >
+              🔄 뒤집기
+            </button>
+            <button onClick={() => onUsePosition(fen)} className="btn-control btn-start" disabled={!!error}>
+              ✅ 이 국면 사용
+            </button>
+            <button onClick={onClose} className="btn-control btn-home-game">🏠 닫기</button>
+          </div>
+        </div>
+        <div className="header-players replay-info">
+          <span className="replay-title">🧱 보드 편집기</span>
+          <span className="replay-names">기물을 보드로 끌어다 놓거나, 골라서 칸을 누르세요</span>
+        </div>
+        {error
+          ? <p className="editor-status invalid">⚠️ {error}</p>
+          : <p className="editor-status">✅ 대국을 시작할 수 있는 국면입니다</p>}
+      </div>
+
+      <div className="game-main">
+        <div className="editor-panel">
+          <div className="editor-palette">
+            {PALETTE_PIECES.map((piece) => (
+              <button
+                key={`${piece.color}${piece.type}`}
+                className={`editor-piece ${isToolSelected(piece) ? 'selected' : ''}`}
+                title={piece.label}
+                onPointerDown={(e) => handlePalettePointerDown(e, piece)}
+              >
+                {piece.symbol}
+              </button>
+            ))}
+            <button
+              className={`editor-piece ${tool === 'erase' ? 'selected' : ''}`}
+              title="지우기"
+              onClick={() => setTool('erase')}
+            >
+              🗑️
+            </button>
+          </div>
+
+          <label className="editor-field">
+            <span>차례</span>
+            <select
+              value={setup.turn}
+              onChange={(e) => setSetup({ ...setup, turn: e.target.value as PieceColor, epSquare: null })}
+            >
+              <option value="w">백</option>
+              <option value="b">흑</option>
+            </select>
+          </label>
+
+          <div className="editor-field">
+            <span>캐슬링</span>
+            <div className="editor-castling">
+              {([['K', '백 O-O'], ['Q', '백 O-O-O'], ['k', '흑 O-O'], ['q', '흑 O-O-O']] as const).map(([right, label]) => (
+                <label key={right} className="checkbox-label">
+                  <input type="checkbox" checked={setup.castling[right]} onChange={() => toggleCastling(right)} />
+                  <span>{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="editor-field">
+            <span>앙파상</span>
+            <select
+              value={setup.epSquare ?? ''}
+              onChange={(e) => setSetup({ ...setup, epSquare: e.target.value || null })}
+            >
+              <option value="">없음</option>
+              {epCandidates.map(square => <option key={square} value={square}>{square}</option>)}
+            </select>
+          </label>
+
+          <div className="editor-field">
+            <span>FEN</span>
+            <input type="text" value={fen} readOnly onFocus={(e) => e.target.select()} />
+            <input
+              type="text"
+              placeholder="FEN 붙여넣기"
+              value={fenInput}
+              onChange={(e) => setFenInput(e.target.value)}
+            />
+            <button onClick={handleLoadFen} className="btn-secondary" disabled={!fenInput.trim()}>
+              불러오기
+            </button>
+            {fenError && <p className="error">{fenError}</p>}
+          </div>
+        </div>
+
+        <div className="game-canvas">
+          <BoardCanvas
+            pieces={setup.pieces}
+            selectedSquare={null}
+            validMoves={[]}
+            onSquareClick={handleSquareClick}
+            myColor={orientation}
+            onSquareDrop={handleSquareDrop}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Chat Component
+function Chat({
+  messages,
+  onSendMessage,
+  myName
+}: {
+  messages: ChatMessage[];
+  onSendMessage: (text: string) => void;
+  myName: string;
+}) {
+  const [inputText, setInputText] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  // Auto-scroll to bottom when new messages arrive
+  useEffect(() => {
+    if (messagesEndRef.current) {
+      messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [messages]);
+
+  const handleSend = () => {
+    if (inputText.trim()) {
+      onSendMessage(inputText.trim());
+      setInputText('');
+    }
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className={`chat-container ${isOpen ? 'open' : 'closed'}`}>
+      <button className="chat-toggle" onClick={() => setIsOpen(!isOpen)}>
+        💬 {isOpen ? '채팅 닫기' : '채팅 열기'}
+        {!isOpen && messages.length > 0 && (
+          <span className="chat-badge">{messages.length}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="chat-panel">
+          <div className="chat-messages">
+            {messages.length === 0 ? (
+              <p className="chat-empty">메시지가 없습니다</p>
+            ) : (
+              messages.map((msg) => (
+                <div
+                  key={msg.id}
+                  className={`chat-message ${msg.senderName === myName ? 'mine' : 'theirs'}`}
+                >
+                  <span className="chat-sender">{msg.senderName}</span>
+                  <span className="chat-text">{msg.text}</span>
+                </div>
+              ))
+            )}
+            <div ref={messagesEndRef} />
+          </div>
+          <div className="chat-input-area">
+            <input
+              type="text"
+              value={inputText}
+              onChange={(e) => setInputText(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder="메시지 입력..."
+              maxLength={100}
+            />
+            <button onClick={handleSend} className="chat-send">
+              전송
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Paused Overlay Component - 상대방 연결 끊김 시 표시
+function PausedOverlay({ disconnectedAt }: { disconnectedAt: number }) {
+  const [remainingTime, setRemainingTime] = useState(60);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const elapsed = Math.floor((serverNow() - disconnectedAt) / 1000);
+      const remaining = Math.max(0, 60 - elapsed);
+      setRemainingTime(remaining);
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [disconnectedAt]);
+
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  return (
+    <div className="paused-overlay">
+      <div className="paused-content">
+        <div className="paused-icon">⏳</div>
+        <h2>상대방 연결 대기 중...</h2>
+        <div className="paused-timer">{formatTime(remainingTime)}</div>
+        <p>상대방이 1분 내로 돌아오지 않으면<br />자동으로 승리합니다</p>
+      </div>
+    </div>
+  );
+}
+
+// Takeback Prompt Component - 상대의 무르기 요청에 수락 / 거절
+function TakebackPrompt({
+  requesterName,
+  plies,
+  onAnswer
+}: {
+  requesterName: string;
+  plies: number;
+  onAnswer: (accept: boolean) => void;
+}) {
+  return (
+    <div className="popup-overlay">
+      <div className="popup takeback-popup">
+        <h2>↩️ 무르기 요청</h2>
+        <p>{requesterName}님이 {plies === 2 ? '마지막 두 수' : '마지막 수'}를 무르자고 합니다</p>
+        <div className="popup-buttons">
+          <button onClick={() => onAnswer(true)} className="btn-primary">
+            ✅ 수락
+          </button>
+          <button onClick={() => onAnswer(false)} className="btn-secondary">
+            ❌ 거절
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Promotion Picker Component - 폰이 마지막 랭크에 도달하면 표시
+function PromotionPicker({
+  color,
+  onSelect,
+  onCancel
+}: {
+  color: 'white' | 'black';
+  onSelect: (piece: PieceType) => void;
+  onCancel: () => void;
+}) {
+  const options: { piece: PieceType; symbol: string; label: string }[] = color === 'white'
+    ? [
+      { piece: 'q', symbol: '♕', label: '퀸' },
+      { piece: 'r', symbol: '♖', label: '룩' },
+      { piece: 'b', symbol: '♗', label: '비숍' },
+      { piece: 'n', symbol: '♘', label: '나이트' }
+    ]
+    : [
+      { piece: 'q', symbol: '♛', label: '퀸' },
+      { piece: 'r', symbol: '♜', label: '룩' },
+      { piece: 'b', symbol: '♝', label: '비숍' },
+      { piece: 'n', symbol: '♞', label: '나이트' }
+    ];
+
+  return (
+    <div className="popup-overlay">
+      <div className="popup promotion-popup">
+        <h2>프로모션</h2>
+        <div className="promotion-options">
+          {options.map(option => (
+            <button
+              key={option.piece}
+              onClick={() => onSelect(option.piece)}
+              className="promotion-option"
+              title={option.label}
+            >
+              <span className="promotion-symbol">{option.symbol}</span>
+              <span className="promotion-label">{option.label}</span>
+            </button>
+          ))}
+        </div>
+        <button onClick={onCancel} className="btn-secondary">취소</button>
+      </div>
+    </div>
+  );
+}
+
+// 게임 종료 사유 표시 문구
+const END_REASON_LABELS: Record<GameEndReason, string> = {
+  checkmate: '체크메이트',
+  stalemate: '스테일메이트',
+  threefoldRepetition: '3회 동일 국면 반복',
+  fiftyMoveRule: '50수 규칙',
+  fivefoldRepetition: '5회 동일 국면 반복',
+  seventyFiveMoveRule: '75수 규칙',
+  insufficientMaterial: '기물 부족',
+  resign: '기권',
+  drawAgreement: '합의 무승부',
+  abandon: '게임 이탈',
+  disconnect: '연결 끊김',
+  timeout: '시간 초과',
+  timeoutVsInsufficientMaterial: '시간 초과 (상대 기물 부족)',
+  kingOfTheHill: '킹 오브 더 힐',
+  threeCheck: '3체크',
+  hordeDestroyed: '호드 전멸'
+};
+
+// 시간 초과 처리 방식 표시 문구
+const TIMEOUT_POLICY_LABELS: Record<TimeoutPolicy, string> = {
+  loseOnTime: '시간패',
+  randomMove: '무작위 수',
+  engineMove: '엔진 수'
+};
+
+
+// Result Popup Component
+function ResultPopup({
+  winner,
+  endReason,
+  isHost,
+  hostNickname,
+  guestNickname,
+  onPlayAgain,
+  onPlayAgainSamePosition,
+  onExportPgn,
+  onAnalyze,
+  note = '패자가 다음 게임에서 선공합니다'
+}: {
+  winner: 'host' | 'guest' | 'draw';
+  endReason: GameEndReason | null;
+  isHost: boolean | null; // null이면 관전 / 로컬 대국 - 항상 승자 이름 표시
+  hostNickname: string;
+  guestNickname: string;
+  onPlayAgain: (() => void) | null; // null이면 다시 하기 버튼 숨김
+  onPlayAgainSamePosition?: () => void; // Chess960 - 같은 배치로 다시 (있으면 다시 하기는 새 배치)
+  onExportPgn: () => void;
+  onAnalyze: () => void;
+  note?: string;
+}) {
+  const getResultMessage = () => {
+    if (winner === 'draw') return '무승부!';
+    const winnerName = winner === 'host' ? hostNickname : guestNickname;
+    const iWon = isHost !== null && (winner === 'host') === isHost;
+    return iWon ? '🎉 승리!' : `${winnerName} 승리`;
+  };
+
+  return (
+    <div className="popup-overlay">
+      <div className="popup">
+        <h2>{getResultMessage()}</h2>
+        {endReason && <p className="result-reason">{END_REASON_LABELS[endReason]}</p>}
+        <p>{note}</p>
+        <div className="popup-buttons">
+          {onPlayAgain && (
+            <button onClick={onPlayAgain} className="btn-primary">
+              {onPlayAgainSamePosition ? '🎲 새 배치로 다시' : '다시 하기'}
+            </button>
+          )}
+          {onPlayAgainSamePosition && (
+            <button onClick={onPlayAgainSamePosition} className="btn-primary">
+              🔁 같은 배치로 다시
+            </button>
+          )}
+          <button onClick={onAnalyze} className="btn-secondary">
+            🔍 분석
+          </button>
+          <button onClick={onExportPgn} className="btn-secondary">
+            📥 PGN 저장
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// PGN Input Component - 붙여넣기 또는 파일 업로드
+function PgnInput({
+  value,
+  onChange,
+  placeholder
+}: {
+  value: string;
+  onChange: (pgn: string) => void;
+  placeholder: string;
+}) {
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    onChange(await file.text());
+  };
+
+  return (
+    <>
+      <textarea
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+      <input
+        type="file"
+        accept=".pgn,text/plain"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+    </>
+  );
+}
+
+// 기록된 게임에서 유저 기준 결과
+const getMyGameResult = (game: ArchivedGame, userId: string): 'win' | 'loss' | 'draw' => {
+  if (game.winner === 'draw') return 'draw';
+  const myRole = game.hostUserId === userId ? 'host' : 'guest';
+  return game.winner === myRole ? 'win' : 'loss';
+};
+
+// Game History Component - 내 게임 기록
+function GameHistory({
+  user,
+  onBack,
+  onReplay
+}: {
+  user: User;
+  onBack: () => void;
+  onReplay: (game: ReplayGame) => void;
+}) {
+  const [games, setGames] = useState<ArchivedGame[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [opponentFilter, setOpponentFilter] = useState('');
+  const [resultFilter, setResultFilter] = useState<'all' | 'win' | 'loss' | 'draw'>('all');
+  const [openingFilter, setOpeningFilter] = useState('');
+
+  useEffect(() => {
+    fetchUserGames(user.id)
+      .then(setGames)
+      .catch((err) => console.error('게임 기록 불러오기 실패:', err))
+      .finally(() => setIsLoading(false));
+  }, [user.id]);
+
+  const getOpponentName = (game: ArchivedGame) => {
+    return game.hostUserId === user.id ? game.guestNickname : game.hostNickname;
+  };
+
+  const getMyColorLabel = (game: ArchivedGame) => {
+    const myRole = game.hostUserId === user.id ? 'host' : 'guest';
+    return game.whitePlayer === myRole ? '백' : '흑';
+  };
+
+  const opponents = [...new Set(games.map(getOpponentName))].sort();
+  const openingFamilies = [...new Set(games.flatMap(game => (game.opening ? [getOpeningFamily(game.opening)] : [])))].sort();
+
+  const filteredGames = games.filter(game => {
+    if (opponentFilter && getOpponentName(game) !== opponentFilter) return false;
+    if (resultFilter !== 'all' && getMyGameResult(game, user.id) !== resultFilter) return false;
+    if (openingFilter && (!game.opening || getOpeningFamily(game.opening) !== openingFilter)) return false;
+    return true;
+  });
+
+  const resultLabels = { win: '승', loss: '패', draw: '무' };
+
+  const handleReplay = (game: ArchivedGame) => {
+    const whiteIsHost = game.whitePlayer === 'host';
+    onReplay({
+      title: new Date(game.startedAt).toLocaleString('ko-KR'),
+      whiteName: whiteIsHost ? game.hostNickname : game.guestNickname,
+      blackName: whiteIsHost ? game.guestNickname : game.hostNickname,
+      startFen: game.startFen,
+      moves: game.moves,
+      variant: game.variant
+    });
+  };
+
+  return (
+    <div className="form game-history">
+      <h2>📚 내 게임</h2>
+
+      <div className="history-filters">
+        <select value={opponentFilter} onChange={(e) => setOpponentFilter(e.target.value)}>
+          <option value="">모든 상대</option>
+          {opponents.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <select value={resultFilter} onChange={(e) => setResultFilter(e.target.value as typeof resultFilter)}>
+          <option value="all">모든 결과</option>
+          <option value="win">승리</option>
+          <option value="loss">패배</option>
+          <option value="draw">무승부</option>
+        </select>
+        <select value={openingFilter} onChange={(e) => setOpeningFilter(e.target.value)}>
+          <option value="">모든 오프닝</option>
+          {openingFamilies.map(family => (
+            <option key={family} value={family}>{family}</option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <p className="history-empty">로딩 중...</p>
+      ) : filteredGames.length === 0 ? (
+        <p className="history-empty">기록된 게임이 없습니다</p>
+      ) : (
+        <div className="history-list">
+          {filteredGames.map(game => {
+            const result = getMyGameResult(game, user.id);
+            return (
+              <div key={game.id} className={`history-item result-${result}`}>
+                <span className="history-result">{resultLabels[result]}</span>
+                <div className="history-info">
+                  <span className="history-opponent">vs {getOpponentName(game)} ({getMyColorLabel(game)})</span>
+                  {game.opening && (
+                    <span className="history-opening">{game.opening.eco} {game.opening.name}</span>
+                  )}
+                  <span className="history-meta">
+                    {new Date(game.finishedAt).toLocaleDateString('ko-KR')}
+                    {' · '}{game.moves.length}수
+                    {game.endReason && ` · ${END_REASON_LABELS[game.endReason]}`}
+                    {game.assistanceEnabled && ' · 📊 보조 사용'}
+                  </span>
+                </div>
+                <button onClick={() => handleReplay(game)} className="btn-history-replay" title="다시보기">
+                  🎞️
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="form-buttons">
+        <button onClick={onBack} className="btn-secondary">돌아가기</button>
+      </div>
+    </div>
+  );
+}
+
+// Simple hash function for password (for demo purposes - use proper hashing in production!)
+const simpleHash = (str: string): string => {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash;
+  }
+  return Math.abs(hash).toString(16);
+};
+
+// Time Control Picker Component
+function TimeControlPicker({
+  preset,
+  customTime,
+  onPresetChange,
+  onCustomTimeChange
+}: {
+  preset: TimeControl['preset'];
+  customTime: CustomTimeInput;
+  onPresetChange: (preset: TimeControl['preset']) => void;
+  onCustomTimeChange: (customTime: CustomTimeInput) => void;
+}) {
+  return (
+    <>
+      <label>⏱️ 시간 제한</label>
+      <select value={preset} onChange={(e) => onPresetChange(e.target.value as TimeControl['preset'])}>
+        <option value="perMove">수당 30초</option>
+        <option value="bullet">불릿 1+0</option>
+        <option value="blitz">블리츠 3+2</option>
+        <option value="rapid">래피드 10+0</option>
+        <option value="custom">직접 설정</option>
+      </select>
+      {preset === 'custom' && (
+        <div className="custom-time">
+          <label>
+            기본(분)
+            <input
+              type="number"
+              min={1}
+              max={180}
+              value={customTime.minutes}
+              onChange={(e) => onCustomTimeChange({ ...customTime, minutes: Number(e.target.value) })}
+            />
+          </label>
+          <label>
+            증가(초)
+            <input
+              type="number"
+              min={0}
+              max={60}
+              value={customTime.increment}
+              onChange={(e) => onCustomTimeChange({ ...customTime, increment: Number(e.target.value) })}
+            />
+          </label>
+          <label>
+            지연(초)
+            <input
+              type="number"
+              min={0}
+              max={60}
+              value={customTime.delay}
+              onChange={(e) => onCustomTimeChange({ ...customTime, delay: Number(e.target.value) })}
+            />
+          </label>
+        </div>
+      )}
+    </>
+  );
+}
+
+// Lobby Component
+function Lobby({
+  onCreateRoom,
+  onJoinRoom,
+  onOpenReplay,
+  onStartBotGame,
+  onStartLocalGame,
+  onOpenPuzzles,
+  isOnline,
+  setupFen,
+  onOpenEditor,
+  onClearSetupFen
+}: {
+  onCreateRoom: (nickname: string, options: CreateRoomOptions) => void;
+  onJoinRoom: (code: string, nickname: string) => void;
+  onOpenReplay: (game: ReplayGame) => void;
+  onStartBotGame: (nickname: string, options: BotGameOptions) => void;
+  onStartLocalGame: (options: HotseatOptions) => void;
+  onOpenPuzzles: () => void;
+  isOnline: boolean; // Firebase 인증 전이면 온라인 방 기능 비활성
+  setupFen: string | null; // 보드 편집기에서 고른 시작 국면
+  onOpenEditor: () => void;
+  onClearSetupFen: () => void;
+}) {
+  const [mode, setMode] = useState<'menu' | 'create' | 'join' | 'register' | 'login' | 'history' | 'replay' | 'bot' | 'local'>('menu');
+  const [nickname, setNickname] = useState('');
+  const [roomCode, setRoomCode] = useState('');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [isRated, setIsRated] = useState(true);
+  const [allowTakebacks, setAllowTakebacks] = useState(true);
+  const [variant, setVariant] = useState<Variant>('standard');
+  const [importPgn, setImportPgn] = useState('');
+  const [timePreset, setTimePreset] = useState<TimeControl['preset']>('perMove');
+  const [customTime, setCustomTime] = useState<CustomTimeInput>({ minutes: 5, increment: 0, delay: 0 });
+  const [timeoutPolicy, setTimeoutPolicy] = useState<TimeoutPolicy>('loseOnTime');
+  const [replayPgn, setReplayPgn] = useState('');
+  const [botLevel, setBotLevel] = useState(2);
+  const [botColor, setBotColor] = useState<BotGameOptions['color']>('white');
+  const [saveBotGame, setSaveBotGame] = useState(true);
+  const [localWhiteName, setLocalWhiteName] = useState('');
+  const [localBlackName, setLocalBlackName] = useState('');
+  const [flipBoard, setFlipBoard] = useState(true);
+  const [availableRooms, setAvailableRooms] = useState<Room[]>([]);
+
+  // Auth states
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [adminCode, setAdminCode] = useState('');
+  const [isLoggedIn, setIsLoggedIn] = useState(false);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Check if user is already logged in (from localStorage)
+  useEffect(() => {
+    const savedUser = localStorage.getItem('chessUser');
+    if (savedUser) {
+      const user = JSON.parse(savedUser) as User;
+      setCurrentUser(user);
       setNickname(user.nickname);
       setIsLoggedIn(true);
     }
@@ -814,31 +2286,28 @@ function Lobby({
 
   // 공개 방 목록 실시간 구독
   useEffect(() => {
-    const roomsRef = ref(db, 'rooms');
-
-    onValue(roomsRef, (snapshot) => {
-      const data = snapshot.val();
-      if (data) {
-        const roomList = Object.values(data) as Room[];
-        const now = Date.now();
+    return roomStore.subscribeRooms((roomList) => {
+      // 호스트가 탭을 닫고 돌아오지 않은 대기 방은 지운다 (트랜잭션에서 다시 확인)
+      roomList.filter(room => isAbandonedWaitingRoom(room, serverNow())).forEach((room) => {
+        roomStore.removeRoomIf(room.code, (current) => isAbandonedWaitingRoom(current, serverNow()))
+          .catch((error) => console.error('버려진 방 정리 실패:', error));
+      });
 
+      if (roomList.length > 0) {
         // 공개 방 필터링:
-        // 1. 대기 중 + 게스트 없음 + 호스트 활성 (1분 이내)
-        // 2. 일시정지 상태 + 누군가 활성 (2분 이내)
+        // 1. 대기 중 + 게스트 없음 + 호스트 접속 중
+        // 2. 일시정지 상태 + 누군가 접속 중
         const openRooms = roomList.filter(room => {
           if (room.isPrivate) return false;
 
-          // 대기 중인 방: 호스트가 1분 이상 비활성이면 제외
+          // 대기 중인 방: 호스트가 나갔으면 제외
           if (room.status === 'waiting' && !room.guestId) {
-            const hostInactive = (now - room.hostLastActive) > 60000; // 1분
-            return !hostInactive;
+            return !!room.presence?.host?.online;
           }
 
-          // 일시정지 방: 양쪽 모두 2분 이상 비활성이면 제외
+          // 일시정지 방: 양쪽 모두 끊겼으면 제외
           if (room.status === 'paused' && room.disconnectedPlayer) {
-            const hostInactive = (now - room.hostLastActive) > 120000; // 2분
-            const guestInactive = (now - room.guestLastActive) > 120000; // 2분
-            return !(hostInactive && guestInactive);
+            return !!(room.presence?.host?.online || room.presence?.guest?.online);
           }
 
           return false;
@@ -848,8 +2317,6 @@ function Lobby({
         setAvailableRooms([]);
       }
     });
-
-    return () => off(roomsRef);
   }, []);
 
   // Check if user is already logged in (from localStorage)
@@ -863,12 +2330,105 @@ function Lobby({
     }
   }, []);
 
+  // 불러온 PGN - 마지막 국면부터 이어서 둔다 (방 / 봇 대전 / 로컬 대국 공통)
+  // 붙여넣지 않았으면 null, 쓸 수 없으면 에러를 표시하고 undefined
+  const readImportedGame = (): ImportedGame | null | undefined => {
+    if (!importPgn.trim()) return null;
+    if (setupFen) {
+      setError('PGN과 편집한 국면을 함께 쓸 수 없습니다');
+      return undefined;
+    }
+
+    const importedGame = parsePgn(importPgn);
+    if (!importedGame) {
+      setError('PGN 형식이 올바르지 않습니다');
+      return undefined;
+    }
+    if (new Chess(importedGame.fen).isGameOver()) {
+      setError('이미 끝난 게임은 이어서 둘 수 없습니다');
+      return undefined;
+    }
+    return importedGame;
+  };
+
   const handleCreate = () => {
     if (!nickname.trim()) {
       setError('닉네임을 입력해주세요');
       return;
     }
-    onCreateRoom(nickname.trim(), isPrivate);
+
+    if (setupFen && variant !== 'standard') {
+      setError('편집한 국면은 표준 규칙으로만 시작할 수 있습니다');
+      return;
+    }
+    if (importPgn.trim() && variant !== 'standard') {
+      setError('변형 규칙 방에서는 PGN을 불러올 수 없습니다');
+      return;
+    }
+    const importedGame = readImportedGame();
+    if (importedGame === undefined) return;
+
+    const timeControl = toTimeControl(timePreset, customTime);
+    if (timeControl.baseTime <= 0) {
+      setError('기본 시간을 입력해주세요');
+      return;
+    }
+
+    onCreateRoom(nickname.trim(), {
+      isPrivate,
+      rated: isRated,
+      importedGame,
+      timeControl,
+      timeoutPolicy: timeControl.preset === 'perMove' ? timeoutPolicy : 'loseOnTime',
+      variant,
+      startFen: setupFen,
+      takebacksAllowed: !isRated || allowTakebacks
+    });
+  };
+
+  const handleStartBot = () => {
+    if (!nickname.trim()) {
+      setError('닉네임을 입력해주세요');
+      return;
+    }
+    const importedGame = readImportedGame();
+    if (importedGame === undefined) return;
+
+    const timeControl = toTimeControl(timePreset, customTime);
+    if (timeControl.baseTime <= 0) {
+      setError('기본 시간을 입력해주세요');
+      return;
+    }
+
+    onStartBotGame(nickname.trim(), {
+      level: botLevel,
+      color: botColor,
+      timeControl,
+      saveToHistory: isLoggedIn && saveBotGame,
+      startFen: setupFen,
+      importedGame
+    });
+  };
+
+  // 한 화면 2인 대국 - 이름을 비워두면 백 / 흑
+  const handleStartLocal = () => {
+    const importedGame = readImportedGame();
+    if (importedGame === undefined) return;
+
+    const timeControl = toTimeControl(timePreset, customTime);
+    if (timeControl.baseTime <= 0) {
+      setError('기본 시간을 입력해주세요');
+      return;
+    }
+
+    onStartLocalGame({
+      whiteName: localWhiteName.trim() || '백',
+      blackName: localBlackName.trim() || '흑',
+      timeControl,
+      flipBoard,
+      startFen: setupFen,
+      importedGame
+    });
   };
 
   const handleJoin = () => {
@@ -883,6 +2443,22 @@ function Lobby({
     onJoinRoom(roomCode, nickname.trim());
   };
 
+  // 붙여넣은 PGN 다시보기 (방 없이)
+  const handleOpenReplay = () => {
+    const game = parsePgn(replayPgn);
+    if (!game) {
+      setError('PGN 형식이 올바르지 않습니다');
+      return;
+    }
+    onOpenReplay({
+      title: game.headers.Event && game.headers.Event !== '?' ? game.headers.Event : 'PGN',
+      whiteName: game.headers.White || '?',
+      blackName: game.headers.Black || '?',
+      startFen: game.startFen,
+      moves: game.moves
+    });
+  };
+
   // Handle Registration
   const handleRegister = async () => {
     setError('');
@@ -921,9 +2497,7 @@ function Lobby({
 
     try {
       // Check admin code
-      const configRef = ref(db, 'config/registrationCode');
-      const configSnapshot = await get(configRef);
-      const validCode = configSnapshot.val() || '1234'; // Default to "1234" if not set
+      const validCode = (await userStore.getRegistrationCode()) || '1234'; // Default to "1234" if not set
 
       if (validCode !== adminCode) {
         setError('관리자 코드가 올바르지 않습니다');
@@ -932,13 +2506,9 @@ function Lobby({
       }
 
       // Check if username already exists
-      const usersRef = ref(db, 'users');
-      const usersSnapshot = await get(usersRef);
-      const users = usersSnapshot.val() || {};
+      const users = await userStore.getUsers();
 
-      const usernameExists = Object.values(users).some(
-        (user: unknown) => (user as User).username === username.toLowerCase()
-      );
+      const usernameExists = users.some(user => user.username === username.toLowerCase());
 
       if (usernameExists) {
         setError('이미 존재하는 아이디입니다');
@@ -960,7 +2530,7 @@ function Lobby({
       };
 
 
-      await set(ref(db, `users/${userId}`), newUser);
+      await userStore.saveUser(newUser);
 
       setSuccess('회원가입이 완료되었습니다! 로그인해주세요.');
       setUsername('');
@@ -998,13 +2568,9 @@ function Lobby({
     setIsLoading(true);
 
     try {
-      const usersRef = ref(db, 'users');
-      const usersSnapshot = await get(usersRef);
-      const users = usersSnapshot.val() || {};
+      const users = await userStore.getUsers();
 
-      const foundUser = Object.values(users).find(
-        (user: unknown) => (user as User).username === username.toLowerCase()
-      ) as User | undefined;
+      const foundUser = users.find(user => user.username === username.toLowerCase());
 
       if (!foundUser) {
         setError('존재하지 않는 아이디입니다');
@@ -1051,19 +2617,57 @@ function Lobby({
       {isLoggedIn && currentUser && (
         <div className="user-status">
           <span className="user-welcome">👋 {currentUser.nickname}님 환영합니다!</span>
+          <span className="user-puzzle">
+            🧩 {currentUser.puzzleRating ?? DEFAULT_PUZZLE_RATING} · {currentUser.puzzlesSolved ?? 0}문제
+          </span>
           <button onClick={handleLogout} className="btn-logout">로그아웃</button>
         </div>
       )}
 
+      {/* 편집한 시작 국면 - 방 만들기 / 봇 / 로컬 대국에 쓰인다 */}
+      {setupFen && (
+        <div className="setup-banner">
+          <span>🧱 편집한 국면으로 시작합니다</span>
+          <code>{setupFen}</code>
+          <div className="setup-banner-actions">
+            <button onClick={onOpenEditor} className="btn-secondary">수정</button>
+            <button onClick={onClearSetupFen} className="btn-secondary">해제</button>
+          </div>
+        </div>
+      )}
+
       {mode === 'menu' && (
         <div className="lobby-content">
           <div className="menu-buttons">
-            <button onClick={() => setMode('create')} className="btn-primary">
+            {!isOnline && (
+              <p className="form-hint">🔌 서버에 연결하는 중입니다 - 로컬 대국, 봇 대전, 퍼즐은 바로 할 수 있습니다</p>
+            )}
+            <button onClick={() => setMode('create')} className="btn-primary" disabled={!isOnline}>
               방 만들기
             </button>
-            <button onClick={() => setMode('join')} className="btn-secondary">
+            <button onClick={() => setMode('join')} className="btn-secondary" disabled={!isOnline}>
               방 참가하기
             </button>
+            <button onClick={() => setMode('bot')} className="btn-auth-secondary">
+              🤖 컴퓨터와 대결
+            </button>
+            <button onClick={() => setMode('local')} className="btn-auth-secondary">
+              👥 한 화면 2인 대국
+            </button>
+            <button onClick={onOpenPuzzles} className="btn-auth-secondary">
+              🧩 퍼즐
+            </button>
+            <button onClick={onOpenEditor} className="btn-auth-secondary">
+              🧱 보드 편집기
+            </button>
+            <button onClick={() => setMode('replay')} className="btn-auth-secondary">
+              🎞️ 기보 보기
+            </button>
+            {isLoggedIn && (
+              <button onClick={() => setMode('history')} className="btn-auth-secondary">
+                📚 내 게임
+              </button>
+            )}
             {!isLoggedIn && (
               <>
                 <div className="menu-divider">
@@ -1101,10 +2705,169 @@ function Lobby({
             />
             <span>🔒 비공개 방</span>
           </label>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={isRated}
+              onChange={(e) => setIsRated(e.target.checked)}
+            />
+            <span>🏆 랭크 게임 (전적 반영, 평가 막대 / 힌트 사용 불가)</span>
+          </label>
+          {isRated && (
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={allowTakebacks}
+                onChange={(e) => setAllowTakebacks(e.target.checked)}
+              />
+              <span>↩️ 무르기 허용 (상대가 수락하면 되돌림)</span>
+            </label>
+          )}
+          <div className="time-control-select">
+            <label>🎲 규칙</label>
+            <select value={variant} onChange={(e) => setVariant(e.target.value as Variant)}>
+              {(Object.keys(VARIANTS) as Variant[]).map((id) => (
+                <option key={id} value={id}>{VARIANTS[id].label}</option>
+              ))}
+            </select>
+            {variant !== 'standard' && <p className="form-hint">{VARIANTS[variant].description}</p>}
+            <TimeControlPicker
+              preset={timePreset}
+              customTime={customTime}
+              onPresetChange={setTimePreset}
+              onCustomTimeChange={setCustomTime}
+            />
+            <label>⌛ 시간 초과 시</label>
+            <select
+              value={timePreset === 'perMove' ? timeoutPolicy : 'loseOnTime'}
+              onChange={(e) => setTimeoutPolicy(e.target.value as TimeoutPolicy)}
+              disabled={timePreset !== 'perMove'}
+            >
+              <option value="loseOnTime">시간패 (상대 기물 부족 시 무승부)</option>
+              <option value="randomMove">무작위 수 자동 진행</option>
+              <option value="engineMove">엔진 추천 수 자동 진행</option>
+            </select>
+            {timePreset !== 'perMove' && <p className="form-hint">자동 진행은 수당 제한에서만 선택할 수 있습니다</p>}
+          </div>
+          <details className="pgn-import">
+            <summary>📂 PGN 불러오기 (선택)</summary>
+            <PgnInput
+              value={importPgn}
+              onChange={setImportPgn}
+              placeholder="PGN을 붙여넣으면 마지막 국면부터 이어서 둡니다"
+            />
+          </details>
           {error && <p className="error">{error}</p>}
           <div className="form-buttons">
             <button onClick={handleCreate} className="btn-primary">생성</button>
-            <button onClick={() => { setMode('menu'); setError(''); setIsPrivate(false); }} className="btn-secondary">취소</button>
+            <button onClick={() => { setMode('menu'); setError(''); setIsPrivate(false); setIsRated(true); setVariant('standard'); setImportPgn(''); }} className="btn-secondary">취소</button>
+          </div>
+        </div>
+      )}
+
+      {mode === 'bot' && (
+        <div className="form">
+          <h2>컴퓨터와 대결</h2>
+          <input
+            type="text"
+            placeholder="닉네임 입력"
+            value={nickname}
+            onChange={(e) => setNickname(e.target.value)}
+            maxLength={10}
+          />
+          <div className="time-control-select">
+            <label>🤖 난이도</label>
+            <select value={botLevel} onChange={(e) => setBotLevel(Number(e.target.value))}>
+              {BOT_LEVELS.map(({ level, label }) => (
+                <option key={level} value={level}>Lv.{level} {label}</option>
+              ))}
+            </select>
+            <label>♟️ 내 색</label>
+            <select value={botColor} onChange={(e) => setBotColor(e.target.value as BotGameOptions['color'])}>
+              <option value="white">백 (선공)</option>
+              <option value="black">흑</option>
+              <option value="random">무작위</option>
+            </select>
+            <TimeControlPicker
+              preset={timePreset}
+              customTime={customTime}
+              onPresetChange={setTimePreset}
+              onCustomTimeChange={setCustomTime}
+            />
+          </div>
+          {isLoggedIn && (
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={saveBotGame}
+                onChange={(e) => setSaveBotGame(e.target.checked)}
+              />
+              <span>📚 내 게임 기록에 저장</span>
+            </label>
+          )}
+          <details className="pgn-import">
+            <summary>📂 PGN 불러오기 (선택)</summary>
+            <PgnInput
+              value={importPgn}
+              onChange={setImportPgn}
+              placeholder="PGN을 붙여넣으면 마지막 국면부터 이어서 둡니다"
+            />
+          </details>
+          <p className="form-hint">봇 대전은 승패 전적과 랭킹에 반영되지 않습니다</p>
+          {error && <p className="error">{error}</p>}
+          <div className="form-buttons">
+            <button onClick={handleStartBot} className="btn-primary">시작</button>
+            <button onClick={() => { setMode('menu'); setError(''); setImportPgn(''); }} className="btn-secondary">취소</button>
+          </div>
+        </div>
+      )}
+
+      {mode === 'local' && (
+        <div className="form">
+          <h2>한 화면 2인 대국</h2>
+          <input
+            type="text"
+            placeholder="백 이름 (선택)"
+            value={localWhiteName}
+            onChange={(e) => setLocalWhiteName(e.target.value)}
+            maxLength={10}
+          />
+          <input
+            type="text"
+            placeholder="흑 이름 (선택)"
+            value={localBlackName}
+            onChange={(e) => setLocalBlackName(e.target.value)}
+            maxLength={10}
+          />
+          <div className="time-control-select">
+            <TimeControlPicker
+              preset={timePreset}
+              customTime={customTime}
+              onPresetChange={setTimePreset}
+              onCustomTimeChange={setCustomTime}
+            />
+          </div>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={flipBoard}
+              onChange={(e) => setFlipBoard(e.target.checked)}
+            />
+            <span>🔄 매 수마다 보드 뒤집기</span>
+          </label>
+          <details className="pgn-import">
+            <summary>📂 PGN 불러오기 (선택)</summary>
+            <PgnInput
+              value={importPgn}
+              onChange={setImportPgn}
+              placeholder="PGN을 붙여넣으면 마지막 국면부터 이어서 둡니다"
+            />
+          </details>
+          <p className="form-hint">인터넷 연결 없이 한 기기에서 번갈아 둡니다 (전적 미반영)</p>
+          {error && <p className="error">{error}</p>}
+          <div className="form-buttons">
+            <button onClick={handleStartLocal} className="btn-primary">시작</button>
+            <button onClick={() => { setMode('menu'); setError(''); setImportPgn(''); }} className="btn-secondary">취소</button>
           </div>
         </div>
       )}
@@ -1130,6 +2893,11 @@ function Lobby({
                         <span className="room-status-badge">재접속</span>
                       )}
                     </span>
+                    <span className="room-time-badge">
+                      {isRatedRoom(room) ? '🏆 랭크' : '🤝 친선'}
+                      {getVariant(room) !== 'standard' && ` · 🎲 ${getVariantRules(room).label}`}
+                      {' · '}{formatTimeControl(getTimeControl(room))} · {TIMEOUT_POLICY_LABELS[getTimeoutPolicy(room)]}
+                    </span>
                     <span className="room-code-badge">{room.code}</span>
                   </div>
                 ))}
@@ -1258,21 +3026,417 @@ function Lobby({
             <button onClick={handleLogin} className="btn-primary" disabled={isLoading}>
               {isLoading ? '처리 중...' : '로그인'}
             </button>
-            <button onClick={() => { setMode('menu'); setError(''); }} className="btn-secondary">
-              취소
+            <button onClick={() => { setMode('menu'); setError(''); }} className="btn-secondary">
+              취소
+            </button>
+          </div>
+          <p className="auth-switch">
+            계정이 없으신가요? <span onClick={() => { setMode('register'); setError(''); }}>회원가입</span>
+          </p>
+        </div>
+      )}
+
+      {mode === 'history' && currentUser && (
+        <GameHistory user={currentUser} onBack={() => setMode('menu')} onReplay={onOpenReplay} />
+      )}
+
+      {mode === 'replay' && (
+        <div className="form pgn-import">
+          <h2>🎞️ 기보 보기</h2>
+          <PgnInput
+            value={replayPgn}
+            onChange={setReplayPgn}
+            placeholder="다시 볼 PGN을 붙여넣으세요"
+          />
+          {error && <p className="error">{error}</p>}
+          <div className="form-buttons">
+            <button onClick={handleOpenReplay} className="btn-primary">보기</button>
+            <button onClick={() => { setMode('menu'); setError(''); }} className="btn-secondary">취소</button>
+          </div>
+        </div>
+      )}
+
+      {/* Footer Credit */}
+      <div className="credit-footer">
+        <span>Crafted by</span>
+        <span className="credit-name">T.MIN</span>
+      </div>
+    </div>
+  );
+}
+
+// 로컬 게임용 방 - Firebase에 저장하지 않는다
+// 봇 대전: 호스트 = 나, 게스트 = 봇 / 로컬 대국: 호스트 = 백, 게스트 = 흑
+// 불러온 PGN이 있으면 그 기보의 마지막 국면부터
+const createLocalRoom = (setup: LocalGameSetup): Room => {
+  const now = Date.now();
+  const { importedGame } = setup.options;
+  const startFen = importedGame?.startFen ?? setup.options.startFen ?? DEFAULT_POSITION;
+  const fen = importedGame?.fen ?? startFen;
+  const base = {
+    guestReady: true,
+    status: 'playing' as const,
+    currentTurn: toPlayerColor(loadChess(fen).turn()),
+    turnStartTime: now,
+    timeoutPolicy: 'loseOnTime' as const,
+    startedAt: now,
+    fen,
+    startFen,
+    setupFen: setup.options.startFen,
+    moves: importedGame?.moves ?? [],
+    lastMove: null,
+    winner: null,
+    endReason: null,
+    loserStarts: false,
+    previousLoser: null,
+    disconnectedPlayer: null,
+    disconnectedAt: null,
+    isPrivate: true,
+    createdAt: now,
+    rated: false,
+    assistanceEnabled: false
+  };
+
+  if (setup.mode === 'hotseat') {
+    const { whiteName, blackName, timeControl } = setup.options;
+    return {
+      ...base,
+      code: 'LOCAL',
+      hostId: 'local',
+      hostUserId: null,
+      hostNickname: whiteName,
+      guestId: 'local',
+      guestUserId: null,
+      guestNickname: blackName,
+      timeControl,
+      clocks: createClocks(timeControl),
+      whitePlayer: 'host',
+      botLevel: null
+    };
+  }
+
+  const { nickname, options } = setup;
+  const savedUser = localStorage.getItem('chessUser');
+  const level = BOT_LEVELS.find(l => l.level === options.level) ?? BOT_LEVELS[0];
+  const color = options.color === 'random' ? (Math.random() < 0.5 ? 'white' : 'black') : options.color;
+
+  return {
+    ...base,
+    code: 'BOT',
+    hostId: 'local',
+    hostUserId: savedUser ? (JSON.parse(savedUser) as User).id : null,
+    hostNickname: nickname,
+    guestId: 'bot',
+    guestUserId: null,
+    guestNickname: `🤖 봇 Lv.${level.level} (${level.label})`,
+    timeControl: options.timeControl,
+    clocks: createClocks(options.timeControl),
+    whitePlayer: color === 'white' ? 'host' : 'guest',
+    botLevel: level.level
+  };
+};
+
+// Local Game Component - 봇 대전 / 한 화면 2인 대국 (Firebase 없이 로컬 상태만 사용, 전적 미반영)
+function LocalGame({ setup, onExit }: { setup: LocalGameSetup; onExit: () => void }) {
+  const [room, setRoom] = useState<Room>(() => createLocalRoom(setup));
+  // 불러온 기보도 히스토리로 다시 둔다 (반복 판정 / 무르기)
+  const [chess] = useState(() => {
+    const initial = loadChess(room.startFen);
+    syncChess(initial, room);
+    return initial;
+  });
+  const [pieces, setPieces] = useState<ChessPiece[]>(() => getPieces(chess));
+  const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
+  const [validMoves, setValidMoves] = useState<string[]>([]);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: string; to: string } | null>(null);
+  const [clockTimes, setClockTimes] = useState(() => createClocks(getTimeControl(room)));
+  const [analysisGame, setAnalysisGame] = useState<ReplayGame | null>(null);
+  const [showEval, setShowEval] = useState(false);
+  const [showExplorer, setShowExplorer] = useState(false);
+
+  const isBotGame = setup.mode === 'bot';
+  // 봇 대전은 내 색, 로컬 대국은 백 (보드 뒤집기면 차례인 쪽)
+  const hostColor = getWhiteRole(room) === 'host' ? 'white' : 'black';
+  const orientation = isBotGame
+    ? hostColor
+    : setup.options.flipBoard ? room.currentTurn : 'white';
+  const topColor = orientation === 'white' ? 'black' : 'white';
+  const isBotTurn = isBotGame && room.currentTurn !== hostColor;
+  const canMove = room.status === 'playing' && !isBotTurn;
+
+  const opening = useMemo(() => getOpening(room.startFen || DEFAULT_POSITION, room.moves || []), [room.startFen, room.moves]);
+  const drawClaim = useMemo(() => getClaimableDraw(room), [room]);
+
+  const { evalScore, hintSquares, isHintLoading, requestHint } = useEngineAssist(room.fen, showEval, () => {
+    if (room.status === 'playing' && !room.assistanceEnabled) {
+      setRoom(prev => ({ ...prev, assistanceEnabled: true }));
+    }
+  });
+
+  const getName = (color: 'white' | 'black') => {
+    return getRoleByColor(room, color) === 'host' ? room.hostNickname : (room.guestNickname || '');
+  };
+
+  const getTimerLabel = (color: 'white' | 'black') => {
+    if (isBotGame) return color === hostColor ? '내 시간' : '봇 시간';
+    return color === 'white' ? '백 시간' : '흑 시간';
+  };
+
+  // 사람과 봇이 같은 경로로 수를 둔다
+  const commitMove = useCallback((from: string, to: string, promotion?: PieceType) => {
+    const move = tryRoomMove(chess, room, from, to, promotion);
+    if (!move) return;
+
+    setPieces(getPieces(chess));
+    setSelectedSquare(null);
+    setValidMoves([]);
+    setPendingPromotion(null);
+    setRoom(applyMoveToRoom(room, chess, move, Date.now()));
+  }, [room, chess]);
+
+  // 봇 차례 - 워커에서 탐색 (그 사이 국면이 바뀌면 결과 무시)
+  useEffect(() => {
+    if (!room.botLevel || room.status !== 'playing' || room.currentTurn === hostColor) return;
+
+    let cancelled = false;
+    const fen = room.fen;
+    requestBotMove(fen, room.botLevel)
+      .then(({ move }) => {
+        if (cancelled || !move || chess.fen() !== fen) return;
+        commitMove(move.from, move.to, move.promotion ?? undefined);
+      })
+      .catch((error) => console.error('봇 수 계산 실패:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [room.botLevel, room.status, room.currentTurn, room.fen, hostColor, chess, commitMove]);
+
+  // 시계 - 시간이 다 되면 시간패 (봇도 동일)
+  useEffect(() => {
+    if (room.status !== 'playing') return;
+
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const white = getRemainingTime(room, 'white', now);
+      const black = getRemainingTime(room, 'black', now);
+      setClockTimes({ white, black });
+
+      if ((room.currentTurn === 'white' ? white : black) > 0) return;
+      clearInterval(timer);
+      setRoom(flagRoom(room, chess));
+    }, 200);
+
+    return () => clearInterval(timer);
+  }, [room, chess]);
+
+  // 봇 대전은 로그인 상태에서 선택한 경우에만 내 게임 기록에 저장
+  useEffect(() => {
+    if (setup.mode !== 'bot' || !setup.options.saveToHistory) return;
+    if (room.status !== 'finished' || !room.hostUserId) return;
+    archiveGame(room).catch((error) => console.error('게임 기록 저장 실패:', error));
+  }, [room, setup]);
+
+  const handleSquareClick = (square: string) => {
+    if (!canMove) return;
+
+    if (selectedSquare && validMoves.includes(square)) {
+      // 프로모션이면 기물 선택 후 이동
+      const isPromotion = chess.moves({ square: selectedSquare as Square, verbose: true })
+        .some(m => m.to === square && m.promotion);
+      if (isPromotion) {
+        setPendingPromotion({ from: selectedSquare, to: square });
+      } else {
+        commitMove(selectedSquare, square);
+      }
+      return;
+    }
+
+    const piece = chess.get(square as Square);
+    if (piece && piece.color === room.currentTurn[0]) {
+      setSelectedSquare(square);
+      setValidMoves(getLegalTargets(chess, room, square));
+    } else {
+      setSelectedSquare(null);
+      setValidMoves([]);
+    }
+  };
+
+  // 봇 대전은 내가, 로컬 대국은 차례인 쪽이 기권
+  const handleResign = () => {
+    if (room.status !== 'playing') return;
+    const loser = isBotGame ? hostColor : room.currentTurn;
+    const message = isBotGame ? '정말 기권하시겠습니까?' : `${getName(loser)}님, 정말 기권하시겠습니까?`;
+    if (!window.confirm(message)) return;
+    setRoom(finishRoom(room, loser === 'white' ? 'black' : 'white', 'resign'));
+  };
+
+  // 같은 화면이므로 두 사람이 확인하면 바로 무승부
+  const handleDraw = () => {
+    if (room.status !== 'playing') return;
+    if (!window.confirm('두 사람 모두 무승부에 동의합니까?')) return;
+    setRoom(finishRoom(room, null, 'drawAgreement'));
+  };
+
+  // 3회 반복 / 50수 규칙 무승부 주장
+  const handleClaimDraw = () => {
+    if (room.status !== 'playing' || !drawClaim) return;
+    setRoom(finishRoom(room, null, drawClaim));
+  };
+
+  const handleGoHome = () => {
+    if (room.status === 'playing' && !window.confirm('진행 중인 게임을 그만두고 나가시겠습니까?')) return;
+    onExit();
+  };
+
+  // 같은 설정으로 새 게임 (무작위 색은 다시 뽑는다)
+  const handlePlayAgain = () => {
+    const next = createLocalRoom(setup);
+    syncChess(chess, next);
+    setPieces(getPieces(chess));
+    setSelectedSquare(null);
+    setValidMoves([]);
+    setPendingPromotion(null);
+    setClockTimes(createClocks(getTimeControl(next)));
+    setRoom(next);
+  };
+
+  const handleExportPgn = () => {
+    downloadTextFile(`chess-${isBotGame ? 'bot' : 'local'}-${Date.now()}.pgn`, buildPgn(room));
+  };
+
+  if (analysisGame) {
+    return <AnalysisReport game={analysisGame} onClose={() => setAnalysisGame(null)} />;
+  }
+
+  return (
+    <div className="game-container">
+      <div className="game-header">
+        <div className="header-controls">
+          <div className="control-buttons">
+            <Timer
+              timeLeft={clockTimes[orientation]}
+              isActive={room.status === 'playing' && room.currentTurn === orientation}
+              label={getTimerLabel(orientation)}
+            />
+            <Timer
+              timeLeft={clockTimes[topColor]}
+              isActive={room.status === 'playing' && room.currentTurn === topColor}
+              label={getTimerLabel(topColor)}
+            />
+            <button
+              onClick={() => setShowEval(!showEval)}
+              className={`btn-control btn-assist ${showEval ? 'active' : ''}`}
+              title="평가 막대"
+            >
+              📊
+            </button>
+            <button
+              onClick={requestHint}
+              className="btn-control btn-assist"
+              disabled={!canMove || isHintLoading}
+              title="힌트"
+            >
+              {isHintLoading ? '…' : '💡'}
+            </button>
+            {room.status === 'playing' && (
+              <>
+                {!isBotGame && (
+                  <button onClick={handleDraw} className="btn-control btn-replay">
+                    🤝 무승부
+                  </button>
+                )}
+                {drawClaim && (
+                  <button onClick={handleClaimDraw} className="btn-control btn-replay">
+                    ⚖️ {END_REASON_LABELS[drawClaim]}
+                  </button>
+                )}
+                <button onClick={handleResign} className="btn-control btn-resign">
+                  🏳️ 기권
+                </button>
+              </>
+            )}
+            <button onClick={handleGoHome} className="btn-control btn-home-game">
+              🏠 홈
             </button>
           </div>
-          <p className="auth-switch">
-            계정이 없으신가요? <span onClick={() => { setMode('register'); setError(''); }}>회원가입</span>
-          </p>
         </div>
-      )}
 
-      {/* Footer Credit */}
-      <div className="credit-footer">
-        <span>Crafted by</span>
-        <span className="credit-name">T.MIN</span>
+        <div className="header-players">
+          {([orientation, topColor] as const).map((color, index) => (
+            <div key={color} className={`player-info ${index === 0 ? 'me' : 'opponent'}`}>
+              <span className="nickname">
+                {getName(color)}
+                {isBotTurn && color !== hostColor && room.status === 'playing' && (
+                  <span className="bot-thinking">생각 중...</span>
+                )}
+              </span>
+              <span className="color">({color === 'white' ? '백' : '흑'})</span>
+            </div>
+          ))}
+        </div>
+
+        <OpeningLabel opening={opening} />
+        <VariantLabel room={room} />
+      </div>
+
+      <div className="game-main">
+        <MoveList
+          moves={room.moves || []}
+          startFen={room.startFen}
+          currentIndex={(room.moves || []).length - 1}
+        />
+
+        {showEval && <EvalBar score={evalScore} orientation={orientation} />}
+
+        <div className="game-canvas">
+          <BoardCanvas
+            pieces={pieces}
+            selectedSquare={selectedSquare}
+            validMoves={validMoves}
+            onSquareClick={handleSquareClick}
+            myColor={orientation}
+            hintSquares={hintSquares}
+            glowSquares={getVariantRules(room).glowSquares}
+          />
+          {showExplorer && <OpeningExplorer fen={room.fen} onClose={() => setShowExplorer(false)} />}
+        </div>
+      </div>
+
+      <div className="game-footer">
+        <p className="room-code">
+          {isBotGame ? '🤖 봇 대전' : '👥 로컬 대국'} · ⏱️ {formatTimeControl(getTimeControl(room))}
+        </p>
+        <button onClick={() => setShowExplorer(!showExplorer)} className="btn-pgn">
+          📖 오프닝 탐색
+        </button>
+        <button onClick={handleExportPgn} className="btn-pgn">
+          📥 PGN 저장
+        </button>
+        <p className="pan-hint">💡 마우스 오른쪽 버튼 드래그로 보드 이동</p>
       </div>
+
+      {pendingPromotion && canMove && (
+        <PromotionPicker
+          color={room.currentTurn}
+          onSelect={(piece) => commitMove(pendingPromotion.from, pendingPromotion.to, piece)}
+          onCancel={() => setPendingPromotion(null)}
+        />
+      )}
+
+      {room.winner && (
+        <ResultPopup
+          winner={room.winner}
+          endReason={room.endReason ?? null}
+          isHost={isBotGame ? true : null}
+          hostNickname={room.hostNickname}
+          guestNickname={room.guestNickname || ''}
+          onPlayAgain={handlePlayAgain}
+          onExportPgn={handleExportPgn}
+          onAnalyze={() => setAnalysisGame(toReplayGame(room))}
+          note={isBotGame ? '봇 대전은 전적에 반영되지 않습니다' : '로컬 대국은 전적에 반영되지 않습니다'}
+        />
+      )}
     </div>
   );
 }
@@ -1289,15 +3453,54 @@ function App() {
   const [pieces, setPieces] = useState<ChessPiece[]>([]);
   const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
   const [validMoves, setValidMoves] = useState<string[]>([]);
-  const [timeLeft, setTimeLeft] = useState(30);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: string; to: string } | null>(null);
+  const [clockTimes, setClockTimes] = useState({ white: 0, black: 0 });
   const [showResult, setShowResult] = useState(false);
+  const [replayGame, setReplayGame] = useState<ReplayGame | null>(null);
+  const [localGame, setLocalGame] = useState<LocalGameSetup | null>(null);
+  const [showPuzzles, setShowPuzzles] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+  const [setupFen, setSetupFen] = useState<string | null>(null);
+  const [analysisGame, setAnalysisGame] = useState<ReplayGame | null>(null);
+  const [showEval, setShowEval] = useState(false);
+  const [showExplorer, setShowExplorer] = useState(false);
   const [recordUpdated, setRecordUpdated] = useState(false);
 
   const timerRef = useRef<number | null>(null);
-  const roomRef = useRef<ReturnType<typeof ref> | null>(null);
+  const roomCodeRef = useRef<string | null>(null); // 들어가 있는 방 코드
+  const unsubscribeRoomRef = useRef<Unsubscribe | null>(null);
+
+  // 방에서의 내 자리 (presence 기록용) - 방 상태의 id로 판단해 화면 전환 중에도 어긋나지 않게
+  const activeRoomCode = room?.code ?? null;
+  const presenceRole = !room || !playerId ? null
+    : room.hostId === playerId ? 'host'
+      : room.guestId === playerId ? 'guest'
+        : null;
+
+  // 평가 막대 / 힌트 - 친선전에서만, 사용하면 방에 기록
+  const assistanceAllowed = !!room && isAssistanceAllowed(room);
+  const { evalScore, hintSquares, isHintLoading, requestHint } = useEngineAssist(
+    room?.fen ?? DEFAULT_POSITION,
+    assistanceAllowed && showEval,
+    () => {
+      if (!room || room.status !== 'playing' || room.assistanceEnabled) return;
+      roomStore.patchRoom(room.code, { assistanceEnabled: true })
+        .catch((error) => console.error('보조 기록 실패:', error));
+    }
+  );
+
+  // 현재 오프닝 - 수를 둘 때마다 다시 판정
+  const opening = useMemo(
+    () => (room ? getOpening(room.startFen || DEFAULT_POSITION, room.moves || []) : null),
+    [room]
+  );
+  // 랭크 게임 진행 중에는 오프닝 탐색도 보조로 보고 막는다
+  const explorerAllowed = assistanceAllowed || room?.status !== 'playing';
+  const drawClaim = useMemo(() => (room ? getClaimableDraw(room) : null), [room]);
+  const variantRules = getVariantRules(room ?? {});
 
   // 게임 종료 시 전적 업데이트
-  const updatePlayerRecord = useCallback(async (winner: 'host' | 'guest' | 'draw') => {
+  const updatePlayerRecord = useCallback(async (winner: 'host' | 'guest' | 'draw', endReason: GameEndReason | null) => {
     // localStorage에서 로그인된 유저 정보 확인
     const savedUser = localStorage.getItem('chessUser');
     if (!savedUser) return; // 비로그인 유저는 전적 기록 안함
@@ -1305,10 +3508,8 @@ function App() {
     const currentUser = JSON.parse(savedUser) as User;
 
     try {
-      // Firebase에서 해당 유저 정보 가져오기
-      const userRef = ref(db, `users/${currentUser.id}`);
-      const userSnapshot = await get(userRef);
-      const userData = userSnapshot.val() as User | null;
+      // 저장소에서 해당 유저 정보 가져오기
+      const userData = await userStore.getUser(currentUser.id);
 
       if (!userData) return;
 
@@ -1328,8 +3529,8 @@ function App() {
         newLosses++;
       }
 
-      // Firebase 업데이트
-      await set(userRef, {
+      // 저장소 업데이트
+      await userStore.saveUser({
         ...userData,
         wins: newWins,
         losses: newLosses,
@@ -1344,7 +3545,7 @@ function App() {
         draws: newDraws
       }));
 
-      console.log('전적 업데이트 완료:', { wins: newWins, losses: newLosses, draws: newDraws });
+      console.log('전적 업데이트 완료:', { wins: newWins, losses: newLosses, draws: newDraws, endReason });
     } catch (error) {
       console.error('전적 업데이트 실패:', error);
     }
@@ -1353,110 +3554,64 @@ function App() {
   // 게임 결과 감지 및 전적 업데이트
   useEffect(() => {
     if (room?.winner && !recordUpdated) {
-      updatePlayerRecord(room.winner);
+      if (isRatedRoom(room)) {
+        updatePlayerRecord(room.winner, room.endReason ?? null);
+      }
+      archiveGame(room).catch((error) => console.error('게임 기록 저장 실패:', error));
       setRecordUpdated(true);
     }
     // 새 게임 시작 시 recordUpdated 리셋
     if (room?.status === 'playing' && recordUpdated) {
       setRecordUpdated(false);
     }
-  }, [room?.winner, room?.status, recordUpdated, updatePlayerRecord]);
+  }, [room, recordUpdated, updatePlayerRecord]);
 
-  // 하트비트 시스템 - 3초마다 lastActive 업데이트 (더 자주)
-  // paused 상태에서도 하트비트를 보내야 재연결 감지가 가능
+  // 접속 상태 - 방에 있는 동안 저장소가 presence를 기록한다 (연결이 끊기면 서버가 offline으로 바꿈)
   useEffect(() => {
-    if (!room || !roomRef.current || room.status === 'finished') return;
-    // waiting, ready 상태에서는 하트비트 불필요
-    if (room.status === 'waiting' || room.status === 'ready') return;
-
-    // 즉시 하트비트 한 번 보내기
-    const sendHeartbeat = async () => {
-      if (!roomRef.current || !room) return;
-      try {
-        const fieldToUpdate = isHost ? 'hostLastActive' : 'guestLastActive';
-        await set(ref(db, `rooms/${room.code}/${fieldToUpdate}`), Date.now());
-        console.log('Heartbeat sent:', fieldToUpdate, Date.now());
-      } catch (error) {
-        console.error('Heartbeat failed:', error);
-      }
-    };
-
-    sendHeartbeat(); // 즉시 실행
-
-    const heartbeat = setInterval(sendHeartbeat, 3000); // 3초마다
+    if (!activeRoomCode || !presenceRole) return;
+    return roomStore.trackPresence(activeRoomCode, presenceRole);
+  }, [activeRoomCode, presenceRole]);
 
-    return () => clearInterval(heartbeat);
-  }, [room?.code, room?.status, isHost]);
-
-  // 연결 끊김 감지 및 처리
+  // 연결 끊김 처리 - 상대 presence가 offline이면 일시정지, 다시 online이면 재개, 1분 안에 안 돌아오면 자동 승리
+  // 판정은 트랜잭션 안에서 서버의 최신 방으로 다시 확인한다 (그 사이 둔 수를 덮어쓰지 않도록)
   useEffect(() => {
-    if (!room || !roomRef.current) return;
-    if (room.status !== 'playing' && room.status !== 'paused') return;
-
-    const checkConnection = setInterval(async () => {
-      if (!roomRef.current || !room) return;
-
-      const now = Date.now();
-      const opponentLastActive = isHost ? room.guestLastActive : room.hostLastActive;
-      const timeSinceActive = now - opponentLastActive;
-
-      console.log('Connection check:', {
-        status: room.status,
-        disconnectedPlayer: room.disconnectedPlayer,
-        timeSinceActive,
-        isHost
-      });
-
-      // 상대방이 20초 이상 응답 없음 - 게임 일시정지 (여유롭게)
-      if (timeSinceActive > 20000 && room.status === 'playing' && !room.disconnectedPlayer) {
-        console.log('Pausing game - opponent disconnected');
-        await set(roomRef.current, {
-          ...room,
-          status: 'paused',
-          disconnectedPlayer: isHost ? 'guest' : 'host',
-          disconnectedAt: now
-        });
-      }
+    if (!room || !roomCodeRef.current) return;
+    const code = room.code;
+
+    // 상대가 끊김 - 서버가 기록한 끊긴 시각부터 일시정지
+    const opponent = isHost ? 'guest' : 'host';
+    if (pauseForDisconnect(room, opponent)) {
+      console.log('Pausing game - opponent disconnected');
+      roomStore.updateRoom(code, (current) => pauseForDisconnect(current, opponent))
+        .catch((error) => console.error('일시정지 실패:', error));
+      return;
+    }
 
-      // 일시정지 상태에서 60초 초과 - 자동 승리
-      if (room.status === 'paused' && room.disconnectedAt) {
-        const pausedDuration = now - room.disconnectedAt;
-        if (pausedDuration > 60000) {
-          console.log('Auto-win - opponent timeout');
-          // 나간 사람이 지고, 남은 사람이 이김
-          const winner = room.disconnectedPlayer === 'host' ? 'guest' : 'host';
-          await set(roomRef.current, {
-            ...room,
-            status: 'finished',
-            winner: winner,
-            previousLoser: room.disconnectedPlayer,
-            disconnectedPlayer: null,
-            disconnectedAt: null
-          });
-        }
-      }
+    // 끊겼던 쪽이 다시 연결됨 - 게임 재개
+    if (resumeForReconnect(room, serverNow())) {
+      console.log('Resuming game - player reconnected');
+      roomStore.updateRoom(code, (current) => resumeForReconnect(current, serverNow()))
+        .catch((error) => console.error('게임 재개 실패:', error));
+      return;
+    }
 
-      // 상대방이 다시 연결됨 - 게임 재개
-      // 조건 완화: 30초 이내로 변경 (재접속 시간 여유 확보)
-      if (room.status === 'paused' && timeSinceActive < 30000 && room.disconnectedPlayer) {
-        console.log('Resuming game - opponent reconnected');
-        await set(roomRef.current, {
-          ...room,
-          status: 'playing',
-          disconnectedPlayer: null,
-          disconnectedAt: null
-        });
-      }
-    }, 3000); // 3초마다 체크
+    // 일시정지 60초 초과 - 나간 사람이 지고, 남은 사람이 이김
+    if (room.status !== 'paused' || !room.disconnectedAt) return;
+    const disconnectedAt = room.disconnectedAt;
+    const autoWin = setTimeout(() => {
+      console.log('Auto-win - opponent timeout');
+      roomStore.updateRoom(code, (current) => finishForDisconnect(current, disconnectedAt))
+        .catch((error) => console.error('자동 승리 처리 실패:', error));
+    }, Math.max(0, disconnectedAt + DISCONNECT_TIMEOUT_MS - serverNow()));
 
-    return () => clearInterval(checkConnection);
+    return () => clearTimeout(autoWin);
   }, [room, isHost]);
 
   // Initialize anonymous auth
   useEffect(() => {
-    signInAnonymously(auth)
-      .then((result) => {
-        setPlayerId(result.user.uid);
+    userStore.signIn()
+      .then((id) => {
+        setPlayerId(id);
       })
       .catch((error) => {
         console.error('Auth error:', error);
@@ -1464,26 +3619,15 @@ function App() {
       });
   }, []);
 
+  // 들어가 있는 방 저장 - 새로고침해도 같은 자리로 돌아온다
+  useEffect(() => {
+    if (!activeRoomCode || !presenceRole || !playerId) return;
+    saveActiveRoom({ code: activeRoomCode, role: presenceRole, playerId });
+  }, [activeRoomCode, presenceRole, playerId]);
+
   // Convert chess.js board to pieces array
   const updatePieces = useCallback(() => {
-    const board = chess.board();
-    const newPieces: ChessPiece[] = [];
-
-    board.forEach((row, ri) => {
-      row.forEach((piece, fi) => {
-        if (piece) {
-          const file = String.fromCharCode(97 + fi);
-          const rank = (8 - ri).toString();
-          newPieces.push({
-            type: piece.type as ChessPiece['type'],
-            color: piece.color as ChessPiece['color'],
-            square: `${file}${rank}`
-          });
-        }
-      });
-    });
-
-    setPieces(newPieces);
+    setPieces(getPieces(chess));
   }, [chess]);
 
   // Get my color based on host status and game rules
@@ -1492,12 +3636,8 @@ function App() {
 
     // First game: host is white
     // After game: loser starts as white
-    if (room.previousLoser === 'host') {
-      return isHost ? 'white' : 'black';
-    } else if (room.previousLoser === 'guest') {
-      return isHost ? 'black' : 'white';
-    }
-    return isHost ? 'white' : 'black';
+    const whiteRole = getWhiteRole(room);
+    return (whiteRole === 'host') === isHost ? 'white' : 'black';
   }, [room, isHost]);
 
   // Check if it's my turn
@@ -1507,6 +3647,43 @@ function App() {
     return room.currentTurn === myColor;
   }, [room, getMyColor]);
 
+  // 수 실행 파이프라인 - handleMove와 시간 초과 자동 이동이 공유
+  // chess.move()로 규칙을 검증하고 fen / currentTurn / lastMove를 함께 저장한다
+  // 서버의 국면이 그 사이 바뀌었으면 (무르기 등) 수를 버리고 서버 국면으로 되돌린다
+  const commitMove = useCallback(async (from: string, to: string, promotion?: PieceType) => {
+    if (!room || !roomCodeRef.current) return null;
+
+    const move = tryRoomMove(chess, room, from, to, promotion);
+    if (!move) return null;
+
+    updatePieces();
+    setSelectedSquare(null);
+    setValidMoves([]);
+    setPendingPromotion(null);
+
+    const result = await roomStore.updateRoom(room.code, (current) => {
+      if (current.status !== 'playing' || !isSamePosition(current, room)) return null;
+      return applyMoveToRoom(current, chess, move, serverNow());
+    });
+    if (!result.committed) {
+      if (result.room) syncChess(chess, result.room);
+      updatePieces();
+      return null;
+    }
+
+    return move;
+  }, [room, chess, updatePieces]);
+
+  // 시간 초과 - 차례인 쪽 시간패 (상대에게 메이트 기물이 없으면 무승부)
+  const handleFlag = useCallback(async () => {
+    if (!room || !roomCodeRef.current) return;
+
+    await roomStore.updateRoom(room.code, (current) => {
+      if (current.status !== 'playing' || !isSamePosition(current, room)) return null;
+      return flagRoom(current, chess);
+    });
+  }, [room, chess]);
+
   // Timer effect with auto-move
   const autoMovedRef = useRef(false);
 
@@ -1515,123 +3692,65 @@ function App() {
       autoMovedRef.current = false; // Reset when turn changes
 
       const updateTimer = () => {
-        const elapsed = Math.floor((Date.now() - room.turnStartTime) / 1000);
-        const remaining = Math.max(0, 30 - elapsed);
-        setTimeLeft(remaining);
+        const now = serverNow();
+        const white = getRemainingTime(room, 'white', now);
+        const black = getRemainingTime(room, 'black', now);
+        setClockTimes({ white, black });
 
-        // Auto-move if time runs out and it's my turn (only once)
-        if (remaining === 0 && isMyTurn() && !autoMovedRef.current) {
+        const remaining = room.currentTurn === 'white' ? white : black;
+        if (remaining > 0 || autoMovedRef.current) return;
+
+        const policy = getTimeoutPolicy(room);
+        if (policy === 'loseOnTime') {
+          // 시간패는 양쪽 클라이언트 누구나 판정 (같은 결과를 기록)
           autoMovedRef.current = true;
+          handleFlag();
+          return;
+        }
 
-          // 현재 FEN에서 턴을 올바르게 설정
-          const currentFen = chess.fen();
-          const fenParts = currentFen.split(' ');
-          const myColor = getMyColor();
-          fenParts[1] = myColor === 'white' ? 'w' : 'b';
-          chess.load(fenParts.join(' '));
+        // 자동 수는 시간이 다 된 본인이 handleMove와 같은 경로로 둔다 (프로모션은 퀸)
+        if (!isMyTurn()) return;
+        autoMovedRef.current = true;
 
-          // Get random move and execute
-          const moves = chess.moves({ verbose: true });
+        const playRandomMove = () => {
+          const moves = chess.moves({ verbose: true }).filter(m => !m.promotion || m.promotion === 'q');
           if (moves.length > 0) {
             const randomMove = moves[Math.floor(Math.random() * moves.length)];
-
-            // 직접 기물 이동 (handleMove와 동일한 방식)
-            const piece = chess.get(randomMove.from as any);
-            if (piece) {
-              // 목표 위치 기물 제거 (캡처)
-              const targetPiece = chess.get(randomMove.to as any);
-              if (targetPiece) {
-                chess.remove(randomMove.to as any);
-              }
-
-              // 기존 위치 제거
-              chess.remove(randomMove.from as any);
-
-              // 새 위치에 배치 (프로모션 처리)
-              const newPiece = {
-                ...piece,
-                type: piece.type === 'p' && randomMove.to[1] === (piece.color === 'w' ? '8' : '1') ? 'q' : piece.type
-              };
-              chess.put(newPiece as any, randomMove.to as any);
-
-              // FEN 턴 변경
-              const newTurn = room.currentTurn === 'white' ? 'black' : 'white';
-              const updatedFen = chess.fen();
-              const updatedFenParts = updatedFen.split(' ');
-              updatedFenParts[1] = newTurn === 'white' ? 'w' : 'b';
-              const finalFen = updatedFenParts.join(' ');
-              chess.load(finalFen);
-
-              updatePieces();
-              setSelectedSquare(null);
-              setValidMoves([]);
-
-              set(ref(db, `rooms/${room.code}`), {
-                ...room,
-                fen: finalFen,
-                currentTurn: newTurn,
-                turnStartTime: Date.now(),
-                lastMove: { from: randomMove.from, to: randomMove.to },
-                status: 'playing',
-                winner: null
-              });
-            }
+            commitMove(randomMove.from, randomMove.to, 'q');
           }
+        };
+
+        // 엔진 수는 워커에서 계산 (메인 스레드를 막지 않도록), 엔진이 실패하면 무작위 수
+        if (policy === 'engineMove') {
+          requestBestMove(chess.fen(), 2)
+            .then(({ move }) => {
+              if (move) commitMove(move.from, move.to, move.promotion ?? 'q');
+            })
+            .catch((error) => {
+              console.error('엔진 자동 수 계산 실패:', error);
+              playRandomMove();
+            });
+          return;
         }
+
+        playRandomMove();
       };
 
       updateTimer();
-      timerRef.current = setInterval(updateTimer, 1000);
+      timerRef.current = setInterval(updateTimer, 200);
 
       return () => {
         if (timerRef.current) clearInterval(timerRef.current);
       };
     }
-  }, [room?.turnStartTime, room?.status, room?.currentTurn, isMyTurn, chess, updatePieces, room, getMyColor]);
+  }, [room?.turnStartTime, room?.status, room?.currentTurn, isMyTurn, chess, room, commitMove, handleFlag]);
 
   // Handle move
-  const handleMove = async (from: string, to: string) => {
+  const handleMove = async (from: string, to: string, promotion?: PieceType) => {
     if (!room || !playerId) return;
 
     try {
-      // 강제 이동: 체스 규칙을 무시하고 직접 말 이동
-      const piece = chess.get(from as any);
-      if (!piece) return; // 이동할 말이 없으면 중단
-
-      // 목표 위치에 있는 기물 제거 (캡처)
-      const targetPiece = chess.get(to as any);
-      if (targetPiece) {
-        chess.remove(to as any);
-      }
-
-      // 기존 위치 제거
-      chess.remove(from as any);
-      // 새로운 위치에 말 배치 (프로모션은 퀸으로 고정)
-      const newPiece = { ...piece, type: piece.type === 'p' && to[1] === (piece.color === 'w' ? '8' : '1') ? 'q' : piece.type };
-      chess.put(newPiece as any, to as any);
-
-      // FEN 문자열의 턴 부분을 수정하여 chess.js 내부 상태 동기화
-      const newTurn = room.currentTurn === 'white' ? 'black' : 'white';
-      const currentFen = chess.fen();
-      const fenParts = currentFen.split(' ');
-      fenParts[1] = newTurn === 'white' ? 'w' : 'b'; // 턴 변경
-      const newFen = fenParts.join(' ');
-      chess.load(newFen);
-
-      // UI와 DB 업데이트
-      updatePieces();
-      setSelectedSquare(null);
-      setValidMoves([]);
-
-      await set(roomRef.current!, {
-        ...room,
-        fen: newFen,
-        currentTurn: newTurn,
-        turnStartTime: Date.now(),
-        lastMove: { from, to },
-        status: 'playing',
-        winner: null,
-      });
+      await commitMove(from, to, promotion);
     } catch (e) {
       console.error('Move error:', e);
     }
@@ -1643,15 +3762,21 @@ function App() {
 
     if (selectedSquare) {
       if (validMoves.includes(square)) {
-        handleMove(selectedSquare, square);
+        // 프로모션이면 기물 선택 후 이동
+        const isPromotion = chess.moves({ square: selectedSquare as Square, verbose: true })
+          .some(m => m.to === square && m.promotion);
+        if (isPromotion) {
+          setPendingPromotion({ from: selectedSquare, to: square });
+        } else {
+          handleMove(selectedSquare, square);
+        }
       } else {
         // Select new piece
         const piece = chess.get(square as any);
         if (piece && ((piece.color === 'w' && getMyColor() === 'white') ||
           (piece.color === 'b' && getMyColor() === 'black'))) {
           setSelectedSquare(square);
-          const moves = chess.moves({ square: square as any, verbose: true });
-          setValidMoves(moves.map(m => m.to));
+          setValidMoves(getLegalTargets(chess, room, square));
         } else {
           setSelectedSquare(null);
           setValidMoves([]);
@@ -1662,62 +3787,94 @@ function App() {
       if (piece && ((piece.color === 'w' && getMyColor() === 'white') ||
         (piece.color === 'b' && getMyColor() === 'black'))) {
         setSelectedSquare(square);
-        const moves = chess.moves({ square: square as any, verbose: true });
-        setValidMoves(moves.map(m => m.to));
+        setValidMoves(getLegalTargets(chess, room, square));
       }
     }
   };
 
   // Create room
-  const createRoom = async (nickname: string, isPrivate: boolean = false) => {
+  const createRoom = async (
+    nickname: string,
+    { isPrivate, rated, importedGame, timeControl, timeoutPolicy, variant, startFen, takebacksAllowed }: CreateRoomOptions
+  ) => {
     if (!playerId) return;
 
+    // 불러온 PGN이 있으면 기보를 재생해 마지막 국면으로, 아니면 편집한 국면 / 변형 규칙의 시작 국면
+    if (importedGame) {
+      syncChess(chess, importedGame);
+    } else {
+      chess.load(startFen ?? VARIANTS[variant].createStartFen(), { skipValidation: true });
+    }
+
     // 내 전적 가져오기
     const savedUser = localStorage.getItem('chessUser');
     const myRecord = savedUser
       ? { wins: (JSON.parse(savedUser) as User).wins || 0, losses: (JSON.parse(savedUser) as User).losses || 0 }
       : undefined;
 
-    const code = generateRoomCode();
     const newRoom: Room = {
-      code,
+      code: generateRoomCode(),
+      version: 0,
       hostId: playerId,
+      hostUserId: savedUser ? (JSON.parse(savedUser) as User).id : null,
       hostNickname: nickname,
       hostRecord: myRecord,
       guestId: null,
+      guestUserId: null,
       guestNickname: null,
       guestRecord: null,
       guestReady: false,
       status: 'waiting',
-      currentTurn: 'white',
-      turnStartTime: Date.now(),
+      currentTurn: toPlayerColor(chess.turn()),
+      turnStartTime: serverNow(),
+      timeControl,
+      timeoutPolicy,
+      clocks: createClocks(timeControl),
       fen: chess.fen(),
+      startFen: importedGame?.startFen ?? chess.fen(),
+      moves: importedGame?.moves ?? [],
       lastMove: null,
       winner: null,
+      endReason: null,
       loserStarts: false,
       previousLoser: null,
-      hostLastActive: Date.now(),
-      guestLastActive: 0,
       disconnectedPlayer: null,
       disconnectedAt: null,
       isPrivate: isPrivate,
-      createdAt: Date.now()
+      createdAt: serverNow(),
+      rated,
+      assistanceEnabled: false,
+      variant,
+      setupFen: startFen,
+      takebacksAllowed,
+      takebackRequest: null,
+      drawOffer: null
     };
 
-    roomRef.current = ref(db, `rooms/${code}`);
-    await set(roomRef.current, newRoom);
+    // 같은 코드의 방이 이미 있으면 덮어쓰지 않고 새 코드로
+    for (let attempt = 1; !(await roomStore.insertRoom(newRoom)); attempt++) {
+      if (attempt >= 5) {
+        setError('방을 만들지 못했습니다. 다시 시도해주세요');
+        return;
+      }
+      newRoom.code = generateRoomCode();
+    }
+    roomCodeRef.current = newRoom.code;
 
     setRoom(newRoom);
     setIsHost(true);
     setWaiting(true);
     updatePieces();
 
-    // Listen for updates
-    onValue(roomRef.current, (snapshot) => {
-      const data = snapshot.val() as Room;
+    listenToRoom(newRoom.code);
+  };
+
+  // Listen for updates - 방을 만든 뒤 / 새로고침 후 다시 들어간 뒤
+  const listenToRoom = useCallback((code: string) => {
+    unsubscribeRoomRef.current = roomStore.subscribeRoom(code, (data) => {
       if (data) {
         setRoom(data);
-        chess.load(data.fen);
+        syncChess(chess, data);
         updatePieces();
 
         // Guest joined - exit waiting screen
@@ -1732,7 +3889,7 @@ function App() {
         }
       }
     });
-  };
+  }, [chess, updatePieces]);
 
   // Join room
   const joinRoom = async (code: string, nickname: string) => {
@@ -1744,36 +3901,37 @@ function App() {
       ? { wins: (JSON.parse(savedUser) as User).wins || 0, losses: (JSON.parse(savedUser) as User).losses || 0 }
       : undefined;
 
-    roomRef.current = ref(db, `rooms/${code}`);
+    roomCodeRef.current = code;
 
     // Check if room exists
-    onValue(roomRef.current, async (snapshot) => {
-      const data = snapshot.val() as Room;
-
+    unsubscribeRoomRef.current = roomStore.subscribeRoom(code, async (data) => {
       if (!data) {
         setError('방을 찾을 수 없습니다');
-        off(roomRef.current!);
+        unsubscribeRoomRef.current?.();
         return;
       }
 
       if (data.guestId && data.guestId !== playerId) {
         setError('방이 가득 찼습니다');
-        off(roomRef.current!);
+        unsubscribeRoomRef.current?.();
         return;
       }
 
       // Join room - keep as 'waiting', guest needs to click ready
+      // 동시에 두 명이 들어오면 트랜잭션에서 먼저 쓴 쪽만 게스트가 된다
       if (!data.guestId) {
-        const updatedRoom = {
-          ...data,
-          guestId: playerId,
-          guestNickname: nickname,
-          guestRecord: myRecord || null,
-          guestReady: false,
-          status: 'waiting' as const,
-          guestLastActive: Date.now()
-        };
-        await set(roomRef.current!, updatedRoom);
+        await roomStore.updateRoom(code, (current) => {
+          if (current.guestId) return null;
+          return {
+            ...current,
+            guestId: playerId,
+            guestUserId: savedUser ? (JSON.parse(savedUser) as User).id : null,
+            guestNickname: nickname,
+            guestRecord: myRecord || null,
+            guestReady: false,
+            status: 'waiting'
+          };
+        });
         // Don't setRoom here, will be updated by onValue listener on next trigger
         return;
       }
@@ -1781,26 +3939,46 @@ function App() {
       // Update room state with latest data (including guestId)
       setRoom(data);
       setIsHost(false);
-      chess.load(data.fen);
+      syncChess(chess, data);
       updatePieces();
+
+      // 게임이 끝나면 게스트에게도 결과 표시
+      if (data.winner) {
+        setShowResult(true);
+      }
     });
   };
 
   // Play again
-  const handlePlayAgain = async () => {
-    if (!room || !roomRef.current) return;
-
-    chess.reset();
-    updatePieces();
-
-    await set(roomRef.current, {
-      ...room,
-      fen: chess.fen(),
-      currentTurn: 'white',
-      turnStartTime: Date.now(),
-      lastMove: null,
-      status: 'playing',
-      winner: null
+  // 무작위 배치 변형(Chess960)은 호스트가 새 배치 / 같은 배치를 고른다
+  // 두 사람이 동시에 눌러도 먼저 쓴 쪽만 새 게임을 시작한다 (보드는 리스너가 맞춘다)
+  const handlePlayAgain = async (samePosition = false) => {
+    if (!room || !roomCodeRef.current) return;
+
+    // 편집한 국면으로 만든 방은 항상 그 국면에서 다시 시작
+    const start = loadChess(room.setupFen
+      ?? (samePosition && room.startFen ? room.startFen : getVariantRules(room).createStartFen()));
+
+    await roomStore.updateRoom(room.code, (current) => {
+      if (current.status !== 'finished') return null;
+      return {
+        ...current,
+        fen: start.fen(),
+        startFen: start.fen(),
+        moves: [],
+        currentTurn: toPlayerColor(start.turn()),
+        turnStartTime: serverNow(),
+        clocks: createClocks(getTimeControl(current)),
+        lastMove: null,
+        whitePlayer: current.previousLoser ?? 'host',
+        startedAt: serverNow(),
+        status: 'playing',
+        winner: null,
+        endReason: null,
+        assistanceEnabled: false,
+        takebackRequest: null,
+        drawOffer: null
+      };
     });
 
     setShowResult(false);
@@ -1810,7 +3988,7 @@ function App() {
 
   // Resign button handler
   const handleResign = async () => {
-    if (!room || !roomRef.current) return;
+    if (!room || !roomCodeRef.current) return;
     if (room.status !== 'playing') return;
 
     // 확인 대화 상자
@@ -1818,21 +3996,94 @@ function App() {
       return;
     }
 
-    // 기권한 사람이 지고, 상대방이 이김
-    const winner = isHost ? 'guest' : 'host';
+    // 기권한 사람이 지고, 상대방이 이김 (대기 중인 무르기 요청 / 무승부 제안도 함께 정리)
     const loser = isHost ? 'host' : 'guest';
 
-    await set(roomRef.current, {
-      ...room,
-      status: 'finished',
-      winner: winner,
-      previousLoser: loser
+    await roomStore.updateRoom(room.code, (current) => resignRoom(current, loser, 'resign'));
+  };
+
+  // 무르기 요청 - 내 차례면 상대 수와 내 수를, 상대 차례면 방금 둔 내 수를 되돌린다
+  const handleRequestTakeback = async () => {
+    if (!room || !roomCodeRef.current || room.status !== 'playing') return;
+    if (!isTakebackAllowed(room) || room.takebackRequest) return;
+
+    const plies = getTakebackPlies(room, getMyColor());
+    if (plies === 0) return;
+
+    setSelectedSquare(null);
+    setValidMoves([]);
+    setPendingPromotion(null);
+
+    await roomStore.updateRoom(room.code, (current) => {
+      if (current.status !== 'playing' || current.takebackRequest || !isSamePosition(current, room)) return null;
+      return {
+        ...current,
+        takebackRequest: { by: isHost ? 'host' : 'guest', plies, moveCount: (current.moves || []).length }
+      };
+    });
+  };
+
+  // 무르기 요청에 응답 (요청한 쪽이 부르면 요청 취소)
+  // 요청 뒤에 수가 두어졌으면 수락해도 되돌리지 않는다
+  const handleAnswerTakeback = async (accept: boolean) => {
+    if (!room || !roomCodeRef.current || !room.takebackRequest) return;
+
+    const request = room.takebackRequest;
+
+    setSelectedSquare(null);
+    setValidMoves([]);
+    setPendingPromotion(null);
+
+    await roomStore.updateRoom(room.code, (current) => {
+      // 화면에 보였던 요청에만 응답
+      const pending = current.takebackRequest;
+      if (!pending || pending.by !== request.by || pending.moveCount !== request.moveCount) return null;
+
+      const isValid = current.status === 'playing' && pending.moveCount === (current.moves || []).length;
+      return accept && isValid
+        ? takeBackMoves(current, pending.plies, serverNow())
+        : { ...current, takebackRequest: null };
+    });
+  };
+
+  // 무승부 제안 - 상대가 수락하면 합의 무승부, 내가 수를 두면 무효
+  const handleOfferDraw = async () => {
+    if (!room || !roomCodeRef.current || room.status !== 'playing' || room.drawOffer) return;
+
+    await roomStore.updateRoom(room.code, (current) => {
+      if (current.status !== 'playing' || current.drawOffer) return null;
+      return { ...current, drawOffer: isHost ? 'host' : 'guest' };
+    });
+  };
+
+  // 상대의 무승부 제안에 응답
+  const handleAnswerDraw = async (accept: boolean) => {
+    if (!room || !roomCodeRef.current || room.status !== 'playing') return;
+    if (!room.drawOffer || room.drawOffer === (isHost ? 'host' : 'guest')) return;
+
+    // 그 사이 상대가 수를 두어 제안이 사라졌으면 무시
+    const offeredBy = room.drawOffer;
+    await roomStore.updateRoom(room.code, (current) => {
+      if (current.status !== 'playing' || current.drawOffer !== offeredBy) return null;
+      return accept
+        ? finishRoom(current, null, 'drawAgreement')
+        : { ...current, drawOffer: null };
+    });
+  };
+
+  // 3회 반복 / 50수 규칙 무승부 주장
+  const handleClaimDraw = async () => {
+    if (!room || !roomCodeRef.current || room.status !== 'playing' || !drawClaim) return;
+
+    await roomStore.updateRoom(room.code, (current) => {
+      if (current.status !== 'playing' || !isSamePosition(current, room)) return null;
+      return finishRoom(current, null, drawClaim);
     });
   };
 
   // Go Home button handler
   const handleGoHome = async () => {
-    if (!room || !roomRef.current) return;
+    if (!room || !roomCodeRef.current) return;
 
     // 게임 중이면 경고
     if (room.status === 'playing' || room.status === 'paused') {
@@ -1841,25 +4092,24 @@ function App() {
       }
 
       // 나간 사람이 패배
-      const winner = isHost ? 'guest' : 'host';
       const loser = isHost ? 'host' : 'guest';
 
-      await set(roomRef.current, {
-        ...room,
-        status: 'finished',
-        winner: winner,
-        previousLoser: loser
-      });
+      await roomStore.updateRoom(room.code, (current) => resignRoom(current, loser, 'abandon'));
     } else {
       // 대기 중이면 그냥 방 삭제 또는 나가기
       if (isHost) {
-        await remove(roomRef.current);
+        await roomStore.removeRoom(room.code);
       } else {
-        await set(roomRef.current, {
-          ...room,
-          guestId: null,
-          guestNickname: null,
-          guestReady: false
+        await roomStore.updateRoom(room.code, (current) => {
+          if (current.guestId !== playerId) return null;
+          return {
+            ...current,
+            guestId: null,
+            guestUserId: null,
+            guestNickname: null,
+            guestReady: false,
+            presence: { ...current.presence, guest: null }
+          };
         });
       }
     }
@@ -1876,35 +4126,48 @@ function App() {
     if (timerRef.current) {
       clearInterval(timerRef.current);
     }
-    roomRef.current = null;
+    unsubscribeRoomRef.current?.();
+    unsubscribeRoomRef.current = null;
+    roomCodeRef.current = null;
+    clearActiveRoom();
   };
 
   // Guest ready button
   const handleGuestReady = async () => {
-    if (!room || !roomRef.current || isHost) return;
-
-    await set(roomRef.current, {
-      ...room,
-      guestReady: true,
-      status: 'ready'  // Now host can start the game
+    if (!room || !roomCodeRef.current || isHost) return;
+
+    await roomStore.updateRoom(room.code, (current) => {
+      if (current.guestId !== playerId || current.status !== 'waiting') return null;
+      return {
+        ...current,
+        guestReady: true,
+        status: 'ready'  // Now host can start the game
+      };
     });
   };
 
   // Start game (host only)
   const handleStartGame = async () => {
-    if (!room || !roomRef.current || !isHost) return;
+    if (!room || !roomCodeRef.current || !isHost) return;
     if (!room.guestReady) return; // Can only start if guest is ready
 
-    await set(roomRef.current, {
-      ...room,
-      status: 'playing',
-      turnStartTime: Date.now()
+    await roomStore.updateRoom(room.code, (current) => {
+      if (!current.guestReady || current.status !== 'ready') return null;
+      return {
+        ...current,
+        status: 'playing',
+        whitePlayer: current.previousLoser ?? 'host',
+        startedAt: serverNow(),
+        turnStartTime: serverNow(),
+        clocks: createClocks(getTimeControl(current)),
+        assistanceEnabled: false
+      };
     });
   };
 
   // Send chat message
   const handleSendMessage = async (text: string) => {
-    if (!room || !roomRef.current || !playerId) return;
+    if (!room || !roomCodeRef.current || !playerId) return;
 
     const myNickname = isHost ? room.hostNickname : room.guestNickname;
     const newMessage: ChatMessage = {
@@ -1912,36 +4175,102 @@ function App() {
       senderId: playerId,
       senderName: myNickname || 'Unknown',
       text,
-      timestamp: Date.now()
+      timestamp: serverNow()
     };
 
-    const updatedMessages = [...(room.messages || []), newMessage];
+    await roomStore.appendMessage(room.code, newMessage);
+  };
 
-    await set(roomRef.current, {
-      ...room,
-      messages: updatedMessages
-    });
+  // PGN 내보내기 (진행 중 / 종료된 게임)
+  const handleExportPgn = () => {
+    if (!room) return;
+    downloadTextFile(`chess-${room.code}-${Date.now()}.pgn`, buildPgn(room));
   };
 
-  // Cleanup on unmount
+  // 시작할 때 새로고침 / 충돌 전에 들어가 있던 방으로 다시 들어간다 (접속 id를 받은 뒤 한 번)
+  // 자리를 지금 id로 되찾고, 내가 끊겨서 멈춘 게임이면 일시정지를 푼다
+  const resumeCheckedRef = useRef(false);
+  useEffect(() => {
+    if (!playerId || resumeCheckedRef.current) return;
+    resumeCheckedRef.current = true;
+
+    const session = loadActiveRoom();
+    if (!session) return;
+    roomStore.updateRoom(session.code, (current) => reclaimSeat(current, session, playerId, serverNow()))
+      .then((result) => {
+        if (!result.committed || !result.room) {
+          clearActiveRoom();
+          return;
+        }
+
+        const data = result.room;
+        roomCodeRef.current = data.code;
+        setRoom(data);
+        setIsHost(session.role === 'host');
+        setWaiting(session.role === 'host' && !data.guestId);
+        syncChess(chess, data);
+        updatePieces();
+        listenToRoom(data.code);
+      })
+      .catch((error) => {
+        console.error('방 다시 들어가기 실패:', error);
+        clearActiveRoom();
+      });
+  }, [playerId, chess, updatePieces, listenToRoom]);
+
+  // Cleanup on unmount - 방은 지우지 않는다 (새로고침 후 다시 들어올 수 있도록)
+  // 게스트 없는 대기 방은 호스트가 1분 안에 돌아오지 않으면 로비에서 정리한다 (isAbandonedWaitingRoom)
   useEffect(() => {
     return () => {
-      if (roomRef.current && isHost) {
-        remove(roomRef.current);
-      }
       if (timerRef.current) {
         clearInterval(timerRef.current);
       }
     };
-  }, [isHost]);
+  }, []);
+
+  const myRole = isHost ? 'host' : 'guest';
 
-  // Render
-  if (!playerId) {
-    return <div className="loading">로딩 중...</div>;
+  // Render - 로비는 인증을 기다리지 않는다 (오프라인에서도 로컬 모드 사용)
+  if (analysisGame) {
+    return <AnalysisReport game={analysisGame} onClose={() => setAnalysisGame(null)} />;
   }
 
   if (!room) {
-    return <Lobby onCreateRoom={createRoom} onJoinRoom={joinRoom} />;
+    if (replayGame) {
+      return <ReplayViewer game={replayGame} onClose={() => setReplayGame(null)} />;
+    }
+    if (localGame) {
+      return <LocalGame setup={localGame} onExit={() => setLocalGame(null)} />;
+    }
+    if (showPuzzles) {
+      return <PuzzleMode onClose={() => setShowPuzzles(false)} />;
+    }
+    if (showEditor) {
+      return (
+        <BoardEditor
+          initialFen={setupFen}
+          onClose={() => setShowEditor(false)}
+          onUsePosition={(fen) => {
+            setSetupFen(fen);
+            setShowEditor(false);
+          }}
+        />
+      );
+    }
+    return (
+      <Lobby
+        onCreateRoom={createRoom}
+        onJoinRoom={joinRoom}
+        onOpenReplay={setReplayGame}
+        onStartBotGame={(nickname, options) => setLocalGame({ mode: 'bot', nickname, options })}
+        onStartLocalGame={(options) => setLocalGame({ mode: 'hotseat', options })}
+        isOnline={!!playerId}
+        onOpenPuzzles={() => setShowPuzzles(true)}
+        setupFen={setupFen}
+        onOpenEditor={() => setShowEditor(true)}
+        onClearSetupFen={() => setSetupFen(null)}
+      />
+    );
   }
 
   // 호스트이고 게스트가 아직 들어오지 않았을 때만 대기 화면 표시
@@ -1966,7 +4295,54 @@ function App() {
         <div className="header-controls">
           {room.status === 'playing' ? (
             <div className="control-buttons">
-              <Timer timeLeft={timeLeft} isMyTurn={isMyTurn()} />
+              <Timer timeLeft={clockTimes[getMyColor()]} isActive={isMyTurn()} label="내 시간" />
+              <Timer
+                timeLeft={clockTimes[getMyColor() === 'white' ? 'black' : 'white']}
+                isActive={!isMyTurn()}
+                label="상대 시간"
+              />
+              {assistanceAllowed && (
+                <>
+                  <button
+                    onClick={() => setShowEval(!showEval)}
+                    className={`btn-control btn-assist ${showEval ? 'active' : ''}`}
+                    title="평가 막대"
+                  >
+                    📊
+                  </button>
+                  <button
+                    onClick={requestHint}
+                    className="btn-control btn-assist"
+                    disabled={!isMyTurn() || isHintLoading}
+                    title="힌트"
+                  >
+                    {isHintLoading ? '…' : '💡'}
+                  </button>
+                </>
+              )}
+              {isTakebackAllowed(room) && (
+                <button
+                  onClick={handleRequestTakeback}
+                  className="btn-control btn-replay"
+                  disabled={!!room.takebackRequest || getTakebackPlies(room, getMyColor()) === 0}
+                  title="무르기 요청"
+                >
+                  ↩️ 무르기
+                </button>
+              )}
+              <button
+                onClick={handleOfferDraw}
+                className="btn-control btn-replay"
+                disabled={!!room.drawOffer}
+                title="무승부 제안"
+              >
+                🤝 무승부
+              </button>
+              {drawClaim && (
+                <button onClick={handleClaimDraw} className="btn-control btn-replay" title="무승부 주장">
+                  ⚖️ {END_REASON_LABELS[drawClaim]}
+                </button>
+              )}
               <button onClick={handleResign} className="btn-control btn-resign">
                 🏳️ 기권
               </button>
@@ -2037,90 +4413,70 @@ function App() {
             <span className="color">({getMyColor() === 'white' ? '흑' : '백'})</span>
           </div>
         </div>
-      </div>
-
-      <div className="game-canvas">
-        <Canvas shadows camera={{ position: [0, 10, 10], fov: 45 }}>
-          {/* Starry space background */}
-          <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
-
-          {/* Ambient light for base illumination - warmer tone */}
-          <ambientLight intensity={0.3} color="#ffe4c4" />
-
-          {/* Main key light - warm sunlight from top-right */}
-          <directionalLight
-            position={[8, 15, 8]}
-            intensity={1.5}
-            color="#fff8e7"
-            castShadow
-            shadow-mapSize-width={2048}
-            shadow-mapSize-height={2048}
-            shadow-camera-far={50}
-            shadow-camera-left={-12}
-            shadow-camera-right={12}
-            shadow-camera-top={12}
-            shadow-camera-bottom={-12}
-            shadow-bias={-0.0001}
-          />
-
-          {/* Fill light - cooler tone from left */}
-          <directionalLight
-            position={[-8, 10, -8]}
-            intensity={0.5}
-            color="#b8d4ff"
-          />
 
-          {/* Rim/Back light - dramatic edge lighting */}
-          <directionalLight
-            position={[0, 8, -12]}
-            intensity={0.6}
-            color="#ffd700"
-          />
+        <OpeningLabel opening={opening} />
+        <VariantLabel room={room} />
+        {room.status === 'playing' && room.takebackRequest?.by === myRole && (
+          <p className="takeback-status">
+            ↩️ 무르기 요청을 보냈습니다
+            <button onClick={() => handleAnswerTakeback(false)} className="btn-takeback-cancel">취소</button>
+          </p>
+        )}
+        {room.status === 'playing' && room.drawOffer === myRole && (
+          <p className="draw-offer-status">🤝 무승부를 제안했습니다 - 상대의 응답을 기다리는 중</p>
+        )}
+        {room.status === 'playing' && room.drawOffer && room.drawOffer !== myRole && (
+          <p className="draw-offer-status">
+            🤝 상대가 무승부를 제안했습니다
+            <button onClick={() => handleAnswerDraw(true)} className="btn-draw-answer">수락</button>
+            <button onClick={() => handleAnswerDraw(false)} className="btn-draw-answer">거절</button>
+          </p>
+        )}
+      </div>
 
-          {/* Top spotlight for dramatic center focus */}
-          <spotLight
-            position={[0, 20, 0]}
-            angle={0.5}
-            penumbra={0.8}
-            intensity={0.8}
-            color="#ffffff"
-            castShadow
-            shadow-mapSize-width={1024}
-            shadow-mapSize-height={1024}
-          />
+      <div className="game-main">
+        <MoveList
+          moves={room.moves || []}
+          startFen={room.startFen}
+          currentIndex={(room.moves || []).length - 1}
+        />
 
-          {/* Accent point lights for piece highlighting */}
-          <pointLight position={[5, 6, 5]} intensity={0.3} color="#ff6b6b" distance={15} />
-          <pointLight position={[-5, 6, -5]} intensity={0.3} color="#4dabf7" distance={15} />
+        {assistanceAllowed && showEval && <EvalBar score={evalScore} orientation={getMyColor()} />}
 
-          {/* Central hemisphere light for soft fill */}
-          <hemisphereLight
-            args={['#87ceeb', '#2d1b0e', 0.4]}
-          />
-          <ChessBoard3D
+        <div className="game-canvas">
+          <BoardCanvas
             pieces={pieces}
             selectedSquare={selectedSquare}
             validMoves={validMoves}
             onSquareClick={handleSquareClick}
             myColor={getMyColor()}
+            hintSquares={assistanceAllowed ? hintSquares : []}
+            glowSquares={variantRules.glowSquares}
           />
-          <OrbitControls
-            enablePan={true}
-            minDistance={8}
-            maxDistance={30}
-            minPolarAngle={Math.PI / 6}
-            maxPolarAngle={Math.PI / 2.5}
-          />
-        </Canvas>
+          {explorerAllowed && showExplorer && (
+            <OpeningExplorer fen={room.fen} onClose={() => setShowExplorer(false)} />
+          )}
+        </div>
       </div>
 
       <div className="game-footer">
-        <p className="room-code">방 코드: {room.code}</p>
+        <p className="room-code">
+          방 코드: {room.code} · 🎲 {getVariantRules(room).label} · ⏱️ {formatTimeControl(getTimeControl(room))} · ⌛ {TIMEOUT_POLICY_LABELS[getTimeoutPolicy(room)]}
+          {!isTakebackAllowed(room) && ' · ↩️ 무르기 불가'}
+        </p>
         {room.status === 'playing' && (
           <button onClick={handleResign} className="btn-resign">
             🏳️ 기권
           </button>
         )}
+        {explorerAllowed && (
+          <button onClick={() => setShowExplorer(!showExplorer)} className="btn-pgn">
+            📖 오프닝 탐색
+          </button>
+        )}
+        <button onClick={handleExportPgn} className="btn-pgn">
+          📥 PGN 저장
+        </button>
         <p className="pan-hint">💡 마우스 오른쪽 버튼 드래그로 보드 이동</p>
       </div>
 
@@ -2129,13 +4485,35 @@ function App() {
         <PausedOverlay disconnectedAt={room.disconnectedAt} />
       )}
 
+      {/* 상대의 무르기 요청 */}
+      {room.status === 'playing' && room.takebackRequest && room.takebackRequest.by !== myRole && (
+        <TakebackPrompt
+          requesterName={(room.takebackRequest.by === 'host' ? room.hostNickname : room.guestNickname) || ''}
+          plies={room.takebackRequest.plies}
+          onAnswer={handleAnswerTakeback}
+        />
+      )}
+
+      {pendingPromotion && room.status === 'playing' && isMyTurn() && (
+        <PromotionPicker
+          color={getMyColor()}
+          onSelect={(piece) => handleMove(pendingPromotion.from, pendingPromotion.to, piece)}
+          onCancel={() => setPendingPromotion(null)}
+        />
+      )}
+
       {showResult && room.winner && (
         <ResultPopup
           winner={room.winner}
+          endReason={room.endReason ?? null}
           isHost={isHost}
           hostNickname={room.hostNickname}
           guestNickname={room.guestNickname || ''}
-          onPlayAgain={handlePlayAgain}
+          onPlayAgain={!variantRules.randomStart ? () => handlePlayAgain() : isHost ? () => handlePlayAgain(false) : null}
+          onPlayAgainSamePosition={variantRules.randomStart && isHost ? () => handlePlayAgain(true) : undefined}
+          onExportPgn={handleExportPgn}
+          onAnalyze={() => setAnalysisGame(toReplayGame(room))}
+          note={variantRules.randomStart && !isHost ? '호스트가 다음 게임의 배치를 고릅니다' : undefined}
         />
       )}
 
@@ -0,0 +1,95 @@
+import { tryMove, getPositions, loadChess } from './chessRules';
+import { requestTimedSearch } from './engineClient';
+import type { SearchResult } from './engine';
+import type { MoveRecord, MoveJudgement, MoveAnalysis, GameAnalysis, Variant } from './types';
+
+// 대국 후 분석 - 모든 국면을 워커 엔진으로 평가해 실수를 찾는다
+
+// 2수는 항상 끝까지 보고, 국면마다 시간 안에서 더 깊게 (내장 엔진이 느려 중반은 보통 2~3수)
+export const ANALYSIS_MIN_DEPTH = 2;
+const ANALYSIS_MAX_DEPTH = 5;
+export const ANALYSIS_TIME_MS = 2000;
+
+// 센티폰을 승률(%)로 변환 - 큰 점수 차이에서 손실이 과장되지 않도록
+export const toWinPercent = (score: number): number => {
+  const clamped = Math.max(-1000, Math.min(1000, score));
+  return 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * clamped)) - 1);
+};
+
+// 승률 손실(%p)로 수 판정
+const judgeMove = (winLoss: number): MoveJudgement | null => {
+  if (winLoss >= 30) return 'blunder';
+  if (winLoss >= 20) return 'mistake';
+  if (winLoss >= 10) return 'inaccuracy';
+  return null;
+};
+
+// 한 수의 정확도 (0~100)
+const toMoveAccuracy = (winLoss: number): number => {
+  const accuracy = 103.1668 * Math.exp(-0.04354 * winLoss) - 3.1669;
+  return Math.max(0, Math.min(100, accuracy));
+};
+
+const average = (values: number[]): number => {
+  if (values.length === 0) return 100;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+};
+
+// 국면마다 엔진 평가 후 수별 판정 / 정확도 계산
+// onProgress(완료 국면 수, 전체 국면 수), signal로 중단하면 남은 국면은 요청하지 않는다
+export const analyzeGame = async (
+  startFen: string,
+  moves: MoveRecord[],
+  variant: Variant | undefined,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<GameAnalysis> => {
+  const positions = getPositions(startFen, moves, { variant });
+
+  // 워커는 요청을 순서대로 처리하므로 하나씩 보내 진행률을 표시한다
+  const results: SearchResult[] = [];
+  for (const fen of positions) {
+    signal?.throwIfAborted();
+    results.push(await requestTimedSearch(fen, ANALYSIS_MIN_DEPTH, ANALYSIS_MAX_DEPTH, ANALYSIS_TIME_MS));
+    onProgress?.(results.length, positions.length);
+  }
+
+  const evals = results.map(result => result.score);
+  const analyzed: MoveAnalysis[] = moves.slice(0, positions.length - 1).map((record, index) => {
+    const chess = loadChess(positions[index]);
+    const color = chess.turn() === 'w' ? 'white' : 'black';
+    const sign = color === 'white' ? 1 : -1;
+
+    // 둔 쪽 기준 승률 손실
+    const winLoss = Math.max(0, toWinPercent(sign * evals[index]) - toWinPercent(sign * evals[index + 1]));
+    const judgement = judgeMove(winLoss);
+
+    // 판정이 붙은 수에만 엔진 추천 수 표시 (둔 수와 같으면 생략)
+    let bestMove: string | null = null;
+    const best = results[index].move;
+    if (judgement && best && (best.from !== record.from || best.to !== record.to)) {
+      bestMove = tryMove(chess, best.from, best.to, best.promotion ?? undefined)?.san ?? null;
+    }
+
+    return {
+      ply: index + 1,
+      san: record.san,
+      color,
+      evalBefore: evals[index],
+      evalAfter: evals[index + 1],
+      judgement,
+      bestMove,
+      accuracy: toMoveAccuracy(winLoss)
+    };
+  });
+
+  return {
+    evals,
+    depth: Math.min(...results.map(result => result.depth)),
+    moves: analyzed,
+    accuracy: {
+      white: average(analyzed.filter(move => move.color === 'white').map(move => move.accuracy)),
+      black: average(analyzed.filter(move => move.color === 'black').map(move => move.accuracy))
+    }
+  };
+};
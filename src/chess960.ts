@@ -0,0 +1,130 @@
+import { Chess, type Square } from 'chess.js';
+import type { MoveRecord, PlayedMove } from './types';
+
+// Chess960 (피셔 랜덤) - 시작 배치 생성과 960 캐슬링
+// chess.js는 960 캐슬링을 모르므로 FEN의 캐슬링 필드는 항상 '-'로 두고,
+// 캐슬링 권리는 시작 국면 + 기보로 계산한다. 캐슬링은 킹으로 자기 룩을 잡는 수로 입력한다.
+
+export const CHESS960_POSITIONS = 960;
+
+// 남은 5칸에 놓을 나이트 / 룩 / 킹 배치 (Scharnagl 번호 체계)
+const KNIGHT_TABLE = ['NNRKR', 'NRNKR', 'NRKNR', 'NRKRN', 'RNNKR', 'RNKNR', 'RNKRN', 'RKNNR', 'RKNRN', 'RKRNN'];
+
+// 번호(0~959)의 백 1랭크 배치 (518 = RNBQKBNR)
+export const getChess960BackRank = (id: number): string => {
+  const rank: string[] = Array(8).fill('');
+  const fillEmpty = (index: number, piece: string) => {
+    const empty = rank.flatMap((square, file) => (square ? [] : [file]));
+    rank[empty[index]] = piece;
+  };
+
+  let n = id;
+  rank[(n % 4) * 2 + 1] = 'B'; // 밝은 칸 비숍 (b, d, f, h)
+  n = Math.floor(n / 4);
+  rank[(n % 4) * 2] = 'B'; // 어두운 칸 비숍 (a, c, e, g)
+  n = Math.floor(n / 4);
+  fillEmpty(n % 6, 'Q');
+  n = Math.floor(n / 6);
+  for (const piece of KNIGHT_TABLE[n]) {
+    fillEmpty(0, piece);
+  }
+  return rank.join('');
+};
+
+// 번호의 시작 FEN (캐슬링 필드는 '-')
+export const getChess960Fen = (id: number): string => {
+  const backRank = getChess960BackRank(id);
+  return `${backRank.toLowerCase()}/pppppppp/8/8/8/8/PPPPPPPP/${backRank} w - - 0 1`;
+};
+
+export const createRandomChess960Fen = (): string => {
+  return getChess960Fen(Math.floor(Math.random() * CHESS960_POSITIONS));
+};
+
+const toFile = (square: string): number => square.charCodeAt(0) - 97;
+const toSquare = (file: number, rank: string): Square => `${String.fromCharCode(97 + file)}${rank}` as Square;
+
+// 아직 캐슬링할 수 있는 룩의 칸 목록
+// 킹이 움직였거나, 룩이 움직였거나 잡혔으면 권리가 없어진다
+export const getCastlingRooks = (startFen: string, moves: MoveRecord[]): string[] => {
+  const chess = new Chess(startFen);
+  const rooks: string[] = [];
+
+  for (const rank of ['1', '8']) {
+    const color = rank === '1' ? 'w' : 'b';
+    const [kingSquare] = chess.findPiece({ type: 'k', color });
+    if (!kingSquare || kingSquare[1] !== rank) continue;
+    if (moves.some(move => move.from === kingSquare)) continue;
+
+    // 킹 양쪽에서 가장 바깥쪽 룩
+    const rankRooks = chess.findPiece({ type: 'r', color })
+      .filter(square => square[1] === rank)
+      .sort((a, b) => toFile(a) - toFile(b));
+    const queenside = rankRooks.find(square => toFile(square) < toFile(kingSquare));
+    const kingside = [...rankRooks].reverse().find(square => toFile(square) > toFile(kingSquare));
+
+    for (const rook of [queenside, kingside]) {
+      if (rook && !moves.some(move => move.from === rook || move.to === rook)) {
+        rooks.push(rook);
+      }
+    }
+  }
+
+  return rooks;
+};
+
+// 외부 도구용 FEN - 캐슬링 필드를 룩의 파일로 표시 (Shredder-FEN, 예: HAha)
+export const toShredderFen = (fen: string, moves: MoveRecord[] = []): string => {
+  const rooks = getCastlingRooks(fen, moves).sort((a, b) => toFile(b) - toFile(a));
+  const castling = [
+    ...rooks.filter(square => square[1] === '1').map(square => square[0].toUpperCase()),
+    ...rooks.filter(square => square[1] === '8').map(square => square[0])
+  ].join('');
+  const fields = fen.split(' ');
+  fields[2] = castling || '-';
+  return fields.join(' ');
+};
+
+// 960 캐슬링 - from(킹)과 to(자기 룩) 사이가 비어 있고 킹이 지나는 칸이 공격받지 않아야 한다
+// 성공하면 chess를 캐슬링 후 국면으로 바꾼다 (load라서 chess.js 히스토리는 초기화된다)
+export const tryCastle960 = (chess: Chess, from: string, to: string): PlayedMove | null => {
+  const color = chess.turn();
+  const opponent = color === 'w' ? 'b' : 'w';
+  const rank = color === 'w' ? '1' : '8';
+  const king = chess.get(from as Square);
+  const rook = chess.get(to as Square);
+  if (king?.type !== 'k' || king.color !== color || rook?.type !== 'r' || rook.color !== color) return null;
+  if (from[1] !== rank || to[1] !== rank || chess.inCheck()) return null;
+
+  const kingside = toFile(to) > toFile(from);
+  const kingTo = toSquare(kingside ? 6 : 2, rank);
+  const rookTo = toSquare(kingside ? 5 : 3, rank);
+
+  // 킹 / 룩이 지나는 칸과 도착 칸에는 두 기물 외에 아무것도 없어야 한다
+  const files = [from, to, kingTo, rookTo].map(toFile);
+  for (let file = Math.min(...files); file <= Math.max(...files); file++) {
+    const square = toSquare(file, rank);
+    if (square !== from && square !== to && chess.get(square)) return null;
+  }
+
+  // 킹이 지나가는 칸 (도착 칸 포함)이 공격받으면 불가
+  const next = new Chess(chess.fen());
+  next.remove(from as Square);
+  const step = toFile(kingTo) >= toFile(from) ? 1 : -1;
+  for (let file = toFile(from); file !== toFile(kingTo) + step; file += step) {
+    if (next.isAttacked(toSquare(file, rank), opponent)) return null;
+  }
+  next.remove(to as Square);
+  next.put(king, kingTo);
+  next.put(rook, rookTo);
+  if (next.isAttacked(kingTo, opponent)) return null;
+
+  // 차례 / 수 번호를 넘긴 FEN으로 국면 교체 (앙파상 없음, 50수 카운트 +1)
+  const [, , , , halfMoves, moveNumber] = chess.fen().split(' ');
+  const nextBoard = next.fen().split(' ')[0];
+  const fullMoves = color === 'b' ? Number(moveNumber) + 1 : Number(moveNumber);
+  chess.load(`${nextBoard} ${opponent} - - ${Number(halfMoves) + 1} ${fullMoves}`);
+
+  const suffix = chess.isCheckmate() ? '#' : chess.inCheck() ? '+' : '';
+  return { color, from, to, san: `${kingside ? 'O-O' : 'O-O-O'}${suffix}` };
+};
@@ -0,0 +1,236 @@
+import { Chess, DEFAULT_POSITION, type Move, type Square } from 'chess.js';
+import { getVariantRules } from './variants';
+import type { Room, PieceType, GameResult, MoveRecord, ChessPiece, PlayedMove, DrawClaim } from './types';
+
+// chess.js 색상('w' | 'b')을 방에서 쓰는 색상으로 변환
+export const toPlayerColor = (color: 'w' | 'b'): 'white' | 'black' => {
+  return color === 'w' ? 'white' : 'black';
+};
+
+// chess.js 보드를 3D 보드용 기물 배열로 변환
+export const getPieces = (chess: Chess): ChessPiece[] => {
+  const pieces: ChessPiece[] = [];
+
+  chess.board().forEach((row, ri) => {
+    row.forEach((piece, fi) => {
+      if (piece) {
+        const file = String.fromCharCode(97 + fi);
+        const rank = (8 - ri).toString();
+        pieces.push({
+          type: piece.type,
+          color: piece.color,
+          square: `${file}${rank}`
+        });
+      }
+    });
+  });
+
+  return pieces;
+};
+
+// 체스 규칙에 맞는 수만 둔다 (캐슬링, 앙파상, 프로모션 포함). 불법 수면 null
+export const tryMove = (
+  chess: Chess,
+  from: string,
+  to: string,
+  promotion: PieceType = 'q'
+): Move | null => {
+  try {
+    return chess.move({ from, to, promotion });
+  } catch {
+    return null;
+  }
+};
+
+// 저장된 국면 불러오기 - 킹이 없는 호드 국면도 허용 (새 국면은 입력 단계에서 검증)
+export const loadChess = (fen: string = DEFAULT_POSITION): Chess => {
+  return new Chess(fen, { skipValidation: true });
+};
+
+// 기보 번호 - 시작 국면의 차례와 수 번호부터 센다 (보드 편집기에서 흑 차례 / 중간 번호로 시작한 게임)
+export const getMoveNumbering = (startFen: string = DEFAULT_POSITION): { whiteFirst: boolean; firstMoveNumber: number } => {
+  const fields = startFen.split(' ');
+  return { whiteFirst: fields[1] !== 'b', firstMoveNumber: Number(fields[5]) || 1 };
+};
+
+// 기보의 한 수를 다시 둔다
+// chess.js가 모르는 이 방 변형 규칙의 특수 수도 보드 모양으로 찾아 둔다 (기록된 수는 이미 검증됨)
+export const applyMoveRecord = (
+  chess: Chess,
+  room: Pick<Room, 'variant'>,
+  record: Pick<MoveRecord, 'from' | 'to' | 'promotion'>
+): PlayedMove | null => {
+  const move = tryMove(chess, record.from, record.to, record.promotion ?? undefined);
+  if (move) return move;
+
+  return getVariantRules(room).extraMove?.apply(chess, record.from, record.to) ?? null;
+};
+
+// 방에서 새로 두는 수 - 변형 규칙의 특수 수(960 캐슬링 권리 등)까지 검증
+export const tryRoomMove = (
+  chess: Chess,
+  room: Pick<Room, 'variant' | 'startFen' | 'moves'>,
+  from: string,
+  to: string,
+  promotion?: PieceType
+): PlayedMove | null => {
+  const move = tryMove(chess, from, to, promotion);
+  if (move) return move;
+
+  const { extraMove } = getVariantRules(room);
+  if (!extraMove?.getCandidates(chess, room, from).includes(to)) return null;
+  return extraMove.apply(chess, from, to);
+};
+
+// 선택한 기물이 갈 수 있는 칸 (변형 규칙의 특수 수 포함)
+export const getLegalTargets = (
+  chess: Chess,
+  room: Pick<Room, 'variant' | 'startFen' | 'moves'>,
+  square: string
+): string[] => {
+  const targets = chess.moves({ square: square as Square, verbose: true }).map(move => move.to as string);
+  const { extraMove } = getVariantRules(room);
+  if (!extraMove) return targets;
+
+  const extraTargets = extraMove.getCandidates(chess, room, square)
+    .filter(to => extraMove.apply(loadChess(chess.fen()), square, to));
+  return [...targets, ...extraTargets];
+};
+
+// 방의 lastMove 형식으로 변환
+export const toLastMove = (move: PlayedMove): NonNullable<Room['lastMove']> => ({
+  from: move.from,
+  to: move.to,
+  promotion: move.promotion ?? null
+});
+
+// 기보 항목 생성 (온라인 방이면 timestamp는 서버 시각)
+export const toMoveRecord = (move: PlayedMove, timeSpent: number, timestamp: number): MoveRecord => ({
+  san: move.san,
+  from: move.from,
+  to: move.to,
+  promotion: move.promotion ?? null,
+  timestamp,
+  timeSpent
+});
+
+// 원격 방 상태를 로컬 chess 인스턴스에 반영
+// 기보(moves)로 국면을 재구성해 히스토리(반복 판정용)를 유지한다
+export const syncChess = (chess: Chess, room: Pick<Room, 'fen' | 'startFen' | 'moves' | 'variant'>) => {
+  const moves = room.moves || [];
+  const history = chess.history();
+  if (chess.fen() === room.fen && history.length === moves.length) return;
+
+  // 상대의 마지막 수 한 개만 이어서 두면 되는 경우
+  if (history.length === moves.length - 1) {
+    const last = moves[moves.length - 1];
+    const move = applyMoveRecord(chess, room, last);
+    if (move && chess.fen() === room.fen) return;
+  }
+
+  // 새로고침 등으로 히스토리가 없으면 시작 국면부터 다시 둔다
+  chess.load(room.startFen || DEFAULT_POSITION, { skipValidation: true });
+  for (const record of moves) {
+    if (!applyMoveRecord(chess, room, record)) break;
+  }
+  if (chess.fen() !== room.fen) {
+    chess.load(room.fen, { skipValidation: true });
+  }
+};
+
+// 반복 판정용 국면 (기물 배치 / 차례 / 캐슬링 / 앙파상)
+const toPositionKey = (fen: string): string => fen.split(' ').slice(0, 4).join(' ');
+
+// 마지막 국면이 나온 횟수 - 시작 국면부터 기보로 센다 (chess.js 히스토리가 초기화되는 특수 수 뒤에도 정확)
+export const getRepetitionCount = (room: Pick<Room, 'startFen' | 'moves' | 'variant'>): number => {
+  const positions = getPositions(room.startFen || DEFAULT_POSITION, room.moves || [], room).map(toPositionKey);
+  const current = positions[positions.length - 1];
+  return positions.filter(position => position === current).length;
+};
+
+// 50수 규칙 카운트 (반수)
+const getHalfMoveClock = (fen: string): number => Number(fen.split(' ')[4]) || 0;
+
+// 지금 주장할 수 있는 무승부 - 3회 반복 / 50수 규칙
+export const getClaimableDraw = (room: Pick<Room, 'fen' | 'startFen' | 'moves' | 'variant'>): DrawClaim | null => {
+  if (getRepetitionCount(room) >= 3) return 'threefoldRepetition';
+  if (getHalfMoveClock(room.fen) >= 100) return 'fiftyMoveRule';
+  return null;
+};
+
+// 수를 둔 직후의 국면으로 게임 종료 여부 판정 (변형 규칙의 승리 조건을 먼저 본다)
+// winner가 null이면 무승부. 3회 반복 / 50수 규칙은 주장해야 하고 5회 반복 / 75수 규칙은 자동
+export const getGameResult = (
+  chess: Chess,
+  room: Pick<Room, 'variant' | 'startFen' | 'moves'> = {}
+): GameResult | null => {
+  const rules = getVariantRules(room);
+  const variantResult = rules.getResult?.(chess, room);
+  if (variantResult) return variantResult;
+
+  if (chess.isCheckmate()) {
+    // 체크메이트 당한 쪽이 현재 차례
+    return { winner: chess.turn() === 'w' ? 'black' : 'white', reason: 'checkmate' };
+  }
+  if (chess.isStalemate()) return { winner: null, reason: 'stalemate' };
+  if (rules.insufficientMaterialDraw && chess.isInsufficientMaterial()) {
+    return { winner: null, reason: 'insufficientMaterial' };
+  }
+  if (getRepetitionCount(room) >= 5) return { winner: null, reason: 'fivefoldRepetition' };
+  if (getHalfMoveClock(chess.fen()) >= 150) return { winner: null, reason: 'seventyFiveMoveRule' };
+  return null;
+};
+
+// 이번 게임에서 백을 잡은 쪽 (패자가 다음 게임 선공)
+export const getWhiteRole = (room: Pick<Room, 'whitePlayer' | 'previousLoser'>): 'host' | 'guest' => {
+  return room.whitePlayer ?? room.previousLoser ?? 'host';
+};
+
+// 시작 국면부터 각 수를 둔 뒤의 FEN 목록 (index 0 = 시작 국면)
+export const getPositions = (startFen: string, moves: MoveRecord[], room: Pick<Room, 'variant'> = {}): string[] => {
+  const chess = loadChess(startFen);
+  const positions = [chess.fen()];
+  for (const record of moves) {
+    if (!applyMoveRecord(chess, room, record)) break;
+    positions.push(chess.fen());
+  }
+  return positions;
+};
+
+// 색으로 호스트/게스트 찾기
+export const getRoleByColor = (
+  room: Pick<Room, 'whitePlayer' | 'previousLoser'>,
+  color: 'white' | 'black'
+): 'host' | 'guest' => {
+  const whiteRole = getWhiteRole(room);
+  if (color === 'white') return whiteRole;
+  return whiteRole === 'host' ? 'guest' : 'host';
+};
+
+// 랭크 게임 여부 (예전 방은 모두 전적에 반영되므로 랭크)
+export const isRatedRoom = (room: Pick<Room, 'rated'>): boolean => {
+  return room.rated ?? true;
+};
+
+// 평가 막대 / 힌트는 친선전과 봇 대전에서만
+export const isAssistanceAllowed = (room: Pick<Room, 'rated' | 'botLevel'>): boolean => {
+  return !!room.botLevel || !isRatedRoom(room);
+};
+
+// 무르기는 랭크 방에서 끌 수 있다 (예전 방은 허용)
+export const isTakebackAllowed = (room: Pick<Room, 'takebacksAllowed'>): boolean => {
+  return room.takebacksAllowed ?? true;
+};
+
+// color 쪽이 무르기를 요청하면 되돌릴 수 - 되돌릴 내 수가 없으면 0
+export const getTakebackPlies = (room: Pick<Room, 'currentTurn' | 'moves'>, color: 'white' | 'black'): number => {
+  const plies = room.currentTurn === color ? 2 : 1;
+  return (room.moves || []).length >= plies ? plies : 0;
+};
+
+// 체크메이트할 수 있는 기물이 남아 있는지 (킹 단독 / 킹 + 마이너 1개면 불가)
+export const hasMatingMaterial = (chess: Chess, color: 'w' | 'b'): boolean => {
+  const pieces = chess.board().flat().filter(piece => piece && piece.color === color && piece.type !== 'k');
+  if (pieces.some(piece => piece && ['p', 'r', 'q'].includes(piece.type))) return true;
+  return pieces.length >= 2;
+};
@@ -0,0 +1,237 @@
+import { Chess, type Move } from 'chess.js';
+import type { PieceType } from './types';
+
+// 내장 체스 엔진 - 기물 가치 + 위치 점수 평가, 알파베타 탐색
+// 점수는 센티폰 단위, 항상 백 기준 (양수 = 백 우세)
+
+export const MATE_SCORE = 100_000;
+
+const PIECE_VALUES: Record<PieceType, number> = {
+  p: 100,
+  n: 320,
+  b: 330,
+  r: 500,
+  q: 900,
+  k: 0
+};
+
+// 위치 점수표 (백 기준, 8랭크부터)
+const PIECE_SQUARE_TABLES: Record<PieceType, number[]> = {
+  p: [
+    0, 0, 0, 0, 0, 0, 0, 0,
+    50, 50, 50, 50, 50, 50, 50, 50,
+    10, 10, 20, 30, 30, 20, 10, 10,
+    5, 5, 10, 25, 25, 10, 5, 5,
+    0, 0, 0, 20, 20, 0, 0, 0,
+    5, -5, -10, 0, 0, -10, -5, 5,
+    5, 10, 10, -20, -20, 10, 10, 5,
+    0, 0, 0, 0, 0, 0, 0, 0
+  ],
+  n: [
+    -50, -40, -30, -30, -30, -30, -40, -50,
+    -40, -20, 0, 0, 0, 0, -20, -40,
+    -30, 0, 10, 15, 15, 10, 0, -30,
+    -30, 5, 15, 20, 20, 15, 5, -30,
+    -30, 0, 15, 20, 20, 15, 0, -30,
+    -30, 5, 10, 15, 15, 10, 5, -30,
+    -40, -20, 0, 5, 5, 0, -20, -40,
+    -50, -40, -30, -30, -30, -30, -40, -50
+  ],
+  b: [
+    -20, -10, -10, -10, -10, -10, -10, -20,
+    -10, 0, 0, 0, 0, 0, 0, -10,
+    -10, 0, 5, 10, 10, 5, 0, -10,
+    -10, 5, 5, 10, 10, 5, 5, -10,
+    -10, 0, 10, 10, 10, 10, 0, -10,
+    -10, 10, 10, 10, 10, 10, 10, -10,
+    -10, 5, 0, 0, 0, 0, 5, -10,
+    -20, -10, -10, -10, -10, -10, -10, -20
+  ],
+  r: [
+    0, 0, 0, 0, 0, 0, 0, 0,
+    5, 10, 10, 10, 10, 10, 10, 5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    0, 0, 0, 5, 5, 0, 0, 0
+  ],
+  q: [
+    -20, -10, -10, -5, -5, -10, -10, -20,
+    -10, 0, 0, 0, 0, 0, 0, -10,
+    -10, 0, 5, 5, 5, 5, 0, -10,
+    -5, 0, 5, 5, 5, 5, 0, -5,
+    0, 0, 5, 5, 5, 5, 0, -5,
+    -10, 5, 5, 5, 5, 5, 0, -10,
+    -10, 0, 5, 0, 0, 0, 0, -10,
+    -20, -10, -10, -5, -5, -10, -10, -20
+  ],
+  k: [
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -20, -30, -30, -40, -40, -30, -30, -20,
+    -10, -20, -20, -20, -20, -20, -20, -10,
+    20, 20, 0, 0, 0, 0, 20, 20,
+    20, 30, 10, 0, 0, 10, 30, 20
+  ]
+};
+
+export interface EngineMove {
+  from: string;
+  to: string;
+  promotion: PieceType | null;
+}
+
+export interface SearchResult {
+  move: EngineMove | null;
+  score: number; // 백 기준 센티폰
+  depth: number; // 끝까지 탐색한 깊이 (무작위 수는 0)
+}
+
+// 시간 제한 탐색 - 마감이 지나면 stopped가 되고 그 깊이의 결과는 버린다
+interface SearchLimit {
+  deadline: number;
+  nodes: number;
+  stopped: boolean;
+}
+
+// 정적 평가 (백 기준)
+export const evaluateBoard = (chess: Chess): number => {
+  let score = 0;
+  chess.board().forEach((row, ri) => {
+    row.forEach((piece, fi) => {
+      if (!piece) return;
+      // 흑은 점수표를 상하 반전
+      const index = piece.color === 'w' ? ri * 8 + fi : (7 - ri) * 8 + fi;
+      const value = PIECE_VALUES[piece.type] + PIECE_SQUARE_TABLES[piece.type][index];
+      score += piece.color === 'w' ? value : -value;
+    });
+  });
+  return score;
+};
+
+// 잡는 수 먼저 (MVV-LVA), 프로모션 우선
+const orderMoves = (moves: Move[]): Move[] => {
+  const scoreMove = (move: Move) => {
+    let score = 0;
+    if (move.captured) score += 10 * PIECE_VALUES[move.captured] - PIECE_VALUES[move.piece];
+    if (move.promotion) score += PIECE_VALUES[move.promotion];
+    return score;
+  };
+  return moves.sort((a, b) => scoreMove(b) - scoreMove(a));
+};
+
+// 시계는 노드 몇백 개마다 확인
+const isOutOfTime = (limit?: SearchLimit): boolean => {
+  if (!limit) return false;
+  if (++limit.nodes % 256 === 0 && Date.now() > limit.deadline) limit.stopped = true;
+  return limit.stopped;
+};
+
+// 잡는 수만 이어서 보는 정지 탐색 (수평선 효과 완화)
+const quiesce = (chess: Chess, alpha: number, beta: number, depth: number, limit?: SearchLimit): number => {
+  if (isOutOfTime(limit)) return 0;
+  const sign = chess.turn() === 'w' ? 1 : -1;
+  const standPat = sign * evaluateBoard(chess);
+  if (depth === 0 || standPat >= beta) return standPat;
+  if (standPat > alpha) alpha = standPat;
+
+  const captures = orderMoves(chess.moves({ verbose: true }).filter(m => m.captured));
+  for (const move of captures) {
+    chess.move(move);
+    const score = -quiesce(chess, -beta, -alpha, depth - 1, limit);
+    chess.undo();
+    if (score >= beta) return beta;
+    if (score > alpha) alpha = score;
+  }
+  return alpha;
+};
+
+// 네가맥스 알파베타 - 차례인 쪽 기준 점수
+const negamax = (chess: Chess, depth: number, alpha: number, beta: number, ply: number, limit?: SearchLimit): number => {
+  if (isOutOfTime(limit)) return 0;
+  if (chess.isCheckmate()) return -MATE_SCORE + ply;
+  if (chess.isDraw()) return 0;
+  if (depth === 0) return quiesce(chess, alpha, beta, 4, limit);
+
+  const moves = orderMoves(chess.moves({ verbose: true }));
+  for (const move of moves) {
+    chess.move(move);
+    const score = -negamax(chess, depth - 1, -beta, -alpha, ply + 1, limit);
+    chess.undo();
+    if (score >= beta) return beta;
+    if (score > alpha) alpha = score;
+  }
+  return alpha;
+};
+
+// fen 국면에서 depth 수 앞까지 탐색해 최선의 수와 평가치 반환
+export const searchBestMove = (fen: string, depth: number, limit?: SearchLimit): SearchResult => {
+  const chess = new Chess(fen, { skipValidation: true }); // 킹 없는 호드 국면 허용
+  const sign = chess.turn() === 'w' ? 1 : -1;
+
+  if (chess.isGameOver()) {
+    return { move: null, score: chess.isCheckmate() ? -sign * MATE_SCORE : 0, depth };
+  }
+
+  let bestMove: Move | null = null;
+  let alpha = -Infinity;
+  const beta = Infinity;
+
+  for (const move of orderMoves(chess.moves({ verbose: true }))) {
+    chess.move(move);
+    const score = -negamax(chess, depth - 1, -beta, -alpha, 1, limit);
+    chess.undo();
+    if (limit?.stopped) break;
+    if (score > alpha || !bestMove) {
+      alpha = score;
+      bestMove = move;
+    }
+  }
+
+  return {
+    move: bestMove && { from: bestMove.from, to: bestMove.to, promotion: bestMove.promotion ?? null },
+    score: sign * alpha,
+    depth
+  };
+};
+
+// 반복 심화 - minDepth는 시간과 상관없이 끝까지 보고, 그 뒤로 1수씩 깊게 보다가
+// timeMs가 지나면 마지막으로 끝까지 본 깊이의 결과
+export const searchWithinTime = (fen: string, minDepth: number, maxDepth: number, timeMs: number): SearchResult => {
+  const limit: SearchLimit = { deadline: Date.now() + timeMs, nodes: 0, stopped: false };
+  let result = searchBestMove(fen, minDepth);
+
+  for (let depth = minDepth + 1; depth <= maxDepth && Date.now() < limit.deadline; depth++) {
+    const deeper = searchBestMove(fen, depth, limit);
+    if (limit.stopped) break;
+    result = deeper;
+  }
+  return result;
+};
+
+// 봇 난이도 - 탐색 깊이와 무작위 수를 둘 확률
+export const BOT_LEVELS = [
+  { level: 1, label: '입문', depth: 1, randomness: 0.5 },
+  { level: 2, label: '초급', depth: 1, randomness: 0.15 },
+  { level: 3, label: '중급', depth: 2, randomness: 0 },
+  { level: 4, label: '고급', depth: 3, randomness: 0 }
+];
+
+// 난이도에 맞춰 봇의 수 선택
+export const searchBotMove = (fen: string, level: number): SearchResult => {
+  const { depth, randomness } = BOT_LEVELS.find(l => l.level === level) ?? BOT_LEVELS[0];
+
+  if (Math.random() < randomness) {
+    const moves = new Chess(fen, { skipValidation: true }).moves({ verbose: true });
+    if (moves.length > 0) {
+      const move = moves[Math.floor(Math.random() * moves.length)];
+      return { move: { from: move.from, to: move.to, promotion: move.promotion ?? null }, score: 0, depth: 0 };
+    }
+  }
+
+  return searchBestMove(fen, depth);
+};
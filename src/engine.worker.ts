@@ -0,0 +1,15 @@
+import { searchBestMove, searchBotMove, searchWithinTime } from './engine';
+import type { EngineRequest, EngineResponse } from './engineClient';
+
+// 엔진 탐색은 메인 스레드를 막지 않도록 워커에서 실행
+self.onmessage = (event: MessageEvent<EngineRequest>) => {
+  const request = event.data;
+  const result = request.type === 'bot'
+    ? searchBotMove(request.fen, request.level)
+    : request.type === 'analyze'
+      ? searchWithinTime(request.fen, request.minDepth, request.maxDepth, request.timeMs)
+      : searchBestMove(request.fen, request.depth);
+
+  const response: EngineResponse = { id: request.id, ...result };
+  self.postMessage(response);
+};
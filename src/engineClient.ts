@@ -0,0 +1,72 @@
+import type { SearchResult } from './engine';
+
+export type EngineRequest =
+  | { id: number; type: 'search'; fen: string; depth: number }
+  | { id: number; type: 'analyze'; fen: string; minDepth: number; maxDepth: number; timeMs: number }
+  | { id: number; type: 'bot'; fen: string; level: number };
+
+export type EngineResponse = SearchResult & { id: number };
+
+// 워커 하나를 공유하고 요청 id로 응답을 찾는다
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, { resolve: (result: SearchResult) => void; reject: (error: Error) => void }>();
+
+// 워커가 죽으면 기다리던 요청을 모두 실패시키고 다음 요청 때 새 워커를 만든다
+const resetWorker = (error: Error) => {
+  console.error('엔진 워커 오류:', error);
+  worker?.terminate();
+  worker = null;
+  pending.forEach(({ reject }) => reject(error));
+  pending.clear();
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<EngineResponse>) => {
+      const { id, ...result } = event.data;
+      pending.get(id)?.resolve(result);
+      pending.delete(id);
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      resetWorker(new Error(event.message || '엔진 워커가 중단되었습니다'));
+    };
+    worker.onmessageerror = () => resetWorker(new Error('엔진 응답을 읽지 못했습니다'));
+  }
+  return worker;
+};
+
+type EngineQuery =
+  | { type: 'search'; fen: string; depth: number }
+  | { type: 'analyze'; fen: string; minDepth: number; maxDepth: number; timeMs: number }
+  | { type: 'bot'; fen: string; level: number };
+
+const request = (query: EngineQuery): Promise<SearchResult> => {
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    try {
+      getWorker().postMessage({ id, ...query });
+    } catch (error) {
+      pending.delete(id);
+      reject(error);
+    }
+  });
+};
+
+// 최선의 수와 평가치 (백 기준 센티폰)
+export const requestBestMove = (fen: string, depth: number): Promise<SearchResult> => {
+  return request({ type: 'search', fen, depth });
+};
+
+// minDepth부터 시간 안에서 maxDepth까지 반복 심화 (결과의 depth가 실제로 본 깊이)
+export const requestTimedSearch = (fen: string, minDepth: number, maxDepth: number, timeMs: number): Promise<SearchResult> => {
+  return request({ type: 'analyze', fen, minDepth, maxDepth, timeMs });
+};
+
+// 봇 난이도에 맞춘 수
+export const requestBotMove = (fen: string, level: number): Promise<SearchResult> => {
+  return request({ type: 'bot', fen, level });
+};
@@ -1,4 +1,4 @@
-import { initializeApp } from 'firebase/app';
+import { initializeApp, type FirebaseApp } from 'firebase/app';
 import { getDatabase } from 'firebase/database';
 import { getAuth } from 'firebase/auth';
 
@@ -12,6 +12,12 @@ const firebaseConfig = {
     appId: import.meta.env.VITE_FIREBASE_APP_ID,
 };
 
-const app = initializeApp(firebaseConfig);
-export const db = getDatabase(app);
-export const auth = getAuth(app);
+// 처음 쓸 때 초기화 - 메모리 저장소(VITE_STORE=memory)로 실행하면 Firebase 설정이 없어도 된다
+let app: FirebaseApp | null = null;
+const getApp = (): FirebaseApp => {
+    app ??= initializeApp(firebaseConfig);
+    return app;
+};
+
+export const getDb = () => getDatabase(getApp());
+export const getFirebaseAuth = () => getAuth(getApp());
@@ -0,0 +1,177 @@
+import {
+  ref,
+  get,
+  set,
+  remove,
+  onValue,
+  query,
+  orderByChild,
+  equalTo,
+  runTransaction,
+  onDisconnect,
+  serverTimestamp
+} from 'firebase/database';
+import { signInAnonymously } from 'firebase/auth';
+import { getDb, getFirebaseAuth } from './firebase';
+import type { Stores } from './store';
+import type { Room, User, ArchivedGame } from './types';
+
+// Firebase Realtime Database 저장소
+// 방 쓰기는 트랜잭션 - 그 사이 다른 클라이언트가 먼저 썼으면 Firebase가 최신 값으로 mutate를 다시 부른다
+
+export const createFirebaseStores = (): Stores => ({
+  roomStore: {
+    subscribeRoom: (code, onChange) => {
+      return onValue(ref(getDb(), `rooms/${code}`), (snapshot) => onChange(snapshot.val() as Room | null));
+    },
+
+    subscribeRooms: (onChange) => {
+      return onValue(ref(getDb(), 'rooms'), (snapshot) => {
+        onChange(Object.values(snapshot.val() || {}) as Room[]);
+      });
+    },
+
+    insertRoom: async (room) => {
+      const result = await runTransaction(ref(getDb(), `rooms/${room.code}`), (current: Room | null) => {
+        if (current) return undefined;
+        return room;
+      });
+      return result.committed;
+    },
+
+    // 쓸 때마다 version을 올려 상태 변경 순서를 남긴다
+    updateRoom: async (code, mutate) => {
+      const result = await runTransaction(ref(getDb(), `rooms/${code}`), (current: Room | null) => {
+        // 캐시가 비어 있으면 null로 먼저 불린다 - 그대로 두면 서버 값으로 다시 불린다
+        if (!current) return current;
+
+        const next = mutate(current);
+        if (!next) return undefined;
+        return { ...next, version: (current.version ?? 0) + 1 };
+      });
+
+      const room = result.snapshot.val() as Room | null;
+      return { committed: result.committed && !!room, room };
+    },
+
+    // 필드만 바꾸지만 방 단위 트랜잭션 - 방이 지워졌으면 쓰지 않는다 (그 필드만 남은 빈 방이 생기지 않도록)
+    patchRoom: async (code, fields) => {
+      await runTransaction(ref(getDb(), `rooms/${code}`), (current: Room | null) => {
+        if (!current) return current;
+        return { ...current, ...fields };
+      });
+    },
+
+    // 채팅 - 메시지 목록에만 추가 (mutate가 최신 방으로 다시 불리므로 동시에 둔 수를 지우지 않는다)
+    // 방 단위 트랜잭션이라 방이 지워졌으면 쓰지 않는다 (messages만 남은 빈 방이 생기지 않도록)
+    appendMessage: async (code, message) => {
+      await runTransaction(ref(getDb(), `rooms/${code}`), (current: Room | null) => {
+        if (!current) return current;
+        return { ...current, messages: [...(current.messages || []), message] };
+      });
+    },
+
+    // .info/connected가 true가 될 때마다 (재연결 포함) 끊김 훅을 먼저 걸고 online으로 쓴다
+    // online은 방 단위 트랜잭션으로 써서 지워진 방에 presence만 다시 만들지 않는다
+    trackPresence: (code, role) => {
+      const roomRef = ref(getDb(), `rooms/${code}`);
+      const presenceRef = ref(getDb(), `rooms/${code}/presence/${role}`);
+      const cancelHook = () => {
+        onDisconnect(presenceRef).cancel()
+          .catch((error) => console.error('접속 상태 훅 취소 실패:', error));
+      };
+
+      const unsubscribeConnected = onValue(ref(getDb(), '.info/connected'), (snapshot) => {
+        if (snapshot.val() !== true) return;
+        onDisconnect(presenceRef).set({ online: false, changedAt: serverTimestamp() })
+          .then(() => runTransaction(roomRef, (current: Room | null) => {
+            if (!current) return current;
+            return { ...current, presence: { ...current.presence, [role]: { online: true, changedAt: serverTimestamp() } } };
+          }))
+          .then((result) => {
+            if (!result.snapshot.exists()) cancelHook();
+          })
+          .catch((error) => console.error('접속 상태 기록 실패:', error));
+      });
+
+      // 방이 지워지면 훅도 취소
+      const unsubscribeRoom = onValue(ref(getDb(), `rooms/${code}/hostId`), (snapshot) => {
+        if (!snapshot.exists()) cancelHook();
+      });
+
+      // 방을 떠날 때는 훅만 취소 (방이 지워진 뒤 presence만 다시 생기지 않도록)
+      return () => {
+        unsubscribeConnected();
+        unsubscribeRoom();
+        cancelHook();
+      };
+    },
+
+    removeRoom: async (code) => {
+      await remove(ref(getDb(), `rooms/${code}`));
+    },
+
+    // 트랜잭션에서 null을 돌려주면 방이 지워진다
+    removeRoomIf: async (code, shouldRemove) => {
+      const result = await runTransaction(ref(getDb(), `rooms/${code}`), (current: Room | null) => {
+        if (!current) return current;
+        return shouldRemove(current) ? null : undefined;
+      });
+      return result.committed && !result.snapshot.exists();
+    },
+
+    subscribeServerTimeOffset: (onChange) => {
+      return onValue(ref(getDb(), '.info/serverTimeOffset'), (snapshot) => onChange((snapshot.val() as number | null) ?? 0));
+    }
+  },
+
+  userStore: {
+    signIn: async () => {
+      const result = await signInAnonymously(getFirebaseAuth());
+      return result.user.uid;
+    },
+
+    getUser: async (id) => {
+      const snapshot = await get(ref(getDb(), `users/${id}`));
+      return snapshot.val() as User | null;
+    },
+
+    getUsers: async () => {
+      const snapshot = await get(ref(getDb(), 'users'));
+      return Object.values(snapshot.val() || {}) as User[];
+    },
+
+    subscribeUsers: (onChange) => {
+      return onValue(ref(getDb(), 'users'), (snapshot) => {
+        onChange(Object.values(snapshot.val() || {}) as User[]);
+      });
+    },
+
+    saveUser: async (user) => {
+      await set(ref(getDb(), `users/${user.id}`), user);
+    },
+
+    getRegistrationCode: async () => {
+      const snapshot = await get(ref(getDb(), 'config/registrationCode'));
+      return snapshot.val() as string | null;
+    },
+
+    saveGame: async (game) => {
+      await set(ref(getDb(), `games/${game.id}`), game);
+    },
+
+    getUserGames: async (userId) => {
+      const gamesRef = ref(getDb(), 'games');
+      const [asHost, asGuest] = await Promise.all([
+        get(query(gamesRef, orderByChild('hostUserId'), equalTo(userId))),
+        get(query(gamesRef, orderByChild('guestUserId'), equalTo(userId)))
+      ]);
+
+      const games = {
+        ...(asHost.val() || {}),
+        ...(asGuest.val() || {})
+      } as Record<string, ArchivedGame>;
+      return Object.values(games);
+    }
+  }
+});
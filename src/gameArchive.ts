@@ -0,0 +1,49 @@
+import { DEFAULT_POSITION } from 'chess.js';
+import { userStore } from './store';
+import { serverNow } from './serverClock';
+import { getWhiteRole, isRatedRoom } from './chessRules';
+import { getVariant } from './variants';
+import { getOpening } from './openings';
+import type { Room, ArchivedGame } from './types';
+
+// 방 코드 + 시작 시각으로 게임 id 생성 - 양쪽 클라이언트가 같은 기록을 덮어써도 중복되지 않는다
+export const getGameId = (room: Room): string => {
+  return `${room.code}_${room.startedAt ?? room.createdAt}`;
+};
+
+// 종료된 게임을 games/에 저장
+export const archiveGame = async (room: Room): Promise<ArchivedGame | null> => {
+  if (!room.winner) return null;
+
+  const game: ArchivedGame = {
+    id: getGameId(room),
+    roomCode: room.code,
+    hostUserId: room.hostUserId ?? null,
+    guestUserId: room.guestUserId ?? null,
+    hostNickname: room.hostNickname,
+    guestNickname: room.guestNickname || '?',
+    whitePlayer: getWhiteRole(room),
+    startFen: room.startFen || DEFAULT_POSITION,
+    moves: room.moves || [],
+    winner: room.winner,
+    endReason: room.endReason ?? null,
+    startedAt: room.startedAt ?? room.createdAt,
+    finishedAt: serverNow(), // 방의 다른 시각과 같은 서버 시계
+    botLevel: room.botLevel ?? null,
+    rated: isRatedRoom(room),
+    assistanceEnabled: room.assistanceEnabled ?? false,
+    opening: getOpening(room.startFen || DEFAULT_POSITION, room.moves || []),
+    variant: getVariant(room)
+  };
+
+  await userStore.saveGame(game);
+  return game;
+};
+
+// 유저가 호스트 또는 게스트로 참여한 게임 목록 (최신순)
+export const fetchUserGames = async (userId: string): Promise<ArchivedGame[]> => {
+  const games = await userStore.getUserGames(userId);
+  return games
+    .map(game => ({ ...game, moves: game.moves || [] }))
+    .sort((a, b) => b.finishedAt - a.finishedAt);
+};
@@ -0,0 +1,348 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it } from 'vitest';
+import { DEFAULT_POSITION } from 'chess.js';
+import { createMemoryStores, type MemoryStores } from './memoryStore';
+import { loadChess, syncChess, tryRoomMove } from './chessRules';
+import {
+  applyMoveToRoom,
+  resignRoom,
+  isSamePosition,
+  pauseForDisconnect,
+  resumeForReconnect,
+  finishForDisconnect,
+  reclaimSeat,
+  isAbandonedWaitingRoom,
+  DISCONNECT_TIMEOUT_MS
+} from './roomUpdates';
+import { TIME_CONTROL_PRESETS, createClocks } from './timeControl';
+import type { Room, ChatMessage } from './types';
+
+// 두 클라이언트(탭)가 같은 메모리 저장소로 방 프로토콜을 주고받는다
+// 클라이언트는 App과 같은 방식으로 구독한 방을 보고 트랜잭션으로 쓴다
+
+interface Client {
+  id: string;
+  stores: MemoryStores;
+  room: () => Room | null;
+  // 구독한 방이 조건을 만족할 때까지 기다린다
+  waitForRoom: (predicate: (room: Room) => boolean) => Promise<Room>;
+}
+
+let storeCount = 0;
+let clients: Client[] = [];
+
+const createClient = (name: string, code: string): Client => {
+  const stores = createMemoryStores(name);
+  let latest: Room | null = null;
+  const waiters = new Set<() => void>();
+
+  stores.roomStore.subscribeRoom(code, (room) => {
+    latest = room;
+    waiters.forEach(waiter => waiter());
+  });
+
+  const client: Client = {
+    id: `player-${clients.length + 1}`,
+    stores,
+    room: () => latest,
+    waitForRoom: (predicate) => new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        waiters.delete(check);
+        reject(new Error('방 상태를 기다리다 시간 초과'));
+      }, 2000);
+      const check = () => {
+        if (!latest || !predicate(latest)) return;
+        clearTimeout(timeout);
+        waiters.delete(check);
+        resolve(latest);
+      };
+      waiters.add(check);
+      check();
+    })
+  };
+  clients.push(client);
+  return client;
+};
+
+const createTestRoom = (code: string, hostId: string): Room => {
+  const timeControl = TIME_CONTROL_PRESETS.blitz;
+  return {
+    code,
+    version: 0,
+    hostId,
+    hostNickname: '호스트',
+    guestId: null,
+    guestNickname: null,
+    guestReady: false,
+    status: 'waiting',
+    currentTurn: 'white',
+    turnStartTime: Date.now(),
+    timeControl,
+    timeoutPolicy: 'loseOnTime',
+    clocks: createClocks(timeControl),
+    fen: DEFAULT_POSITION,
+    startFen: DEFAULT_POSITION,
+    moves: [],
+    lastMove: null,
+    winner: null,
+    endReason: null,
+    loserStarts: false,
+    previousLoser: null,
+    disconnectedPlayer: null,
+    disconnectedAt: null,
+    isPrivate: false,
+    createdAt: Date.now(),
+    rated: false
+  };
+};
+
+// 호스트가 방을 만들고 게스트가 들어와 게임을 시작한 상태
+const startGame = async () => {
+  const name = `memory-store-test-${++storeCount}`;
+  const code = 'ABCDE';
+  const host = createClient(name, code);
+  const guest = createClient(name, code);
+
+  expect(await host.stores.roomStore.insertRoom(createTestRoom(code, host.id))).toBe(true);
+  await guest.waitForRoom(room => room.status === 'waiting');
+
+  await guest.stores.roomStore.updateRoom(code, (current) => {
+    if (current.guestId) return null;
+    return { ...current, guestId: guest.id, guestNickname: '게스트', guestReady: true, status: 'ready' };
+  });
+  await host.waitForRoom(room => room.status === 'ready');
+
+  await host.stores.roomStore.updateRoom(code, (current) => ({
+    ...current,
+    status: 'playing',
+    whitePlayer: 'host',
+    turnStartTime: Date.now(),
+    startedAt: Date.now()
+  }));
+  await guest.waitForRoom(room => room.status === 'playing');
+
+  return { code, host, guest };
+};
+
+// App의 commitMove와 같이 보고 있던 국면에서 둔 수만 쓴다
+const playMove = async (client: Client, from: string, to: string) => {
+  const seen = client.room();
+  if (!seen) throw new Error('방이 없습니다');
+
+  const chess = loadChess(seen.startFen);
+  syncChess(chess, seen);
+  const move = tryRoomMove(chess, seen, from, to);
+  if (!move) throw new Error(`둘 수 없는 수: ${from}-${to}`);
+
+  return client.stores.roomStore.updateRoom(seen.code, (current) => {
+    if (current.status !== 'playing' || !isSamePosition(current, seen)) return null;
+    return applyMoveToRoom(current, chess, move, Date.now());
+  });
+};
+
+const chat = (client: Client, code: string, text: string): Promise<void> => {
+  const message: ChatMessage = {
+    id: `${Date.now()}-${client.id}-${text}`,
+    senderId: client.id,
+    senderName: client.id,
+    text,
+    timestamp: Date.now()
+  };
+  return client.stores.roomStore.appendMessage(code, message);
+};
+
+afterEach(async () => {
+  await Promise.all(clients.map(client => client.stores.close()));
+  clients = [];
+});
+
+describe('memory store with two clients', () => {
+  it('plays moves that both clients see', async () => {
+    const { host, guest } = await startGame();
+
+    expect((await playMove(host, 'e2', 'e4')).committed).toBe(true);
+    await guest.waitForRoom(room => room.moves?.length === 1);
+
+    expect((await playMove(guest, 'e7', 'e5')).committed).toBe(true);
+    const room = await host.waitForRoom(room => room.moves?.length === 2);
+
+    expect(room.moves?.map(move => move.san)).toEqual(['e4', 'e5']);
+    expect(room.currentTurn).toBe('white');
+    expect(room.version).toBe(4); // 입장, 시작, 두 수
+  });
+
+  it('rejects a move made from a stale position', async () => {
+    const { host, guest } = await startGame();
+
+    await playMove(host, 'e2', 'e4');
+    // 게스트 화면이 아직 첫 수를 받기 전이라고 가정 - 시작 국면에서 둔 수는 쓰지 않는다
+    const stale = { ...guest.room()!, moves: [], fen: DEFAULT_POSITION };
+    const result = await guest.stores.roomStore.updateRoom(stale.code, (current) => {
+      if (!isSamePosition(current, stale)) return null;
+      return { ...current, fen: 'stale' };
+    });
+
+    expect(result.committed).toBe(false);
+    expect(result.room?.moves).toHaveLength(1);
+  });
+
+  it('lets only one of two simultaneous joins take the guest seat', async () => {
+    const name = `memory-store-test-${++storeCount}`;
+    const host = createClient(name, 'FGHIJ');
+    const first = createClient(name, 'FGHIJ');
+    const second = createClient(name, 'FGHIJ');
+    await host.stores.roomStore.insertRoom(createTestRoom('FGHIJ', host.id));
+
+    const join = (client: Client) => client.stores.roomStore.updateRoom('FGHIJ', (current) => {
+      if (current.guestId) return null;
+      return { ...current, guestId: client.id };
+    });
+    const results = await Promise.all([join(first), join(second)]);
+
+    expect(results.filter(result => result.committed)).toHaveLength(1);
+    const room = await host.waitForRoom(room => !!room.guestId);
+    expect([first.id, second.id]).toContain(room.guestId);
+  });
+
+  it('removes a waiting room only after its host has been gone for the timeout', async () => {
+    const name = `memory-store-test-${++storeCount}`;
+    const host = createClient(name, 'KLMNO');
+    const lobby = createClient(name, 'KLMNO');
+    await host.stores.roomStore.insertRoom(createTestRoom('KLMNO', host.id));
+    host.stores.roomStore.trackPresence('KLMNO', 'host');
+    await lobby.waitForRoom(room => !!room.presence?.host?.online);
+
+    await host.stores.close();
+    const offline = await lobby.waitForRoom(room => room.presence?.host?.online === false);
+    const removeIfAbandoned = (now: number) => lobby.stores.roomStore.removeRoomIf('KLMNO', (current) => isAbandonedWaitingRoom(current, now));
+
+    // 새로고침일 수 있으니 바로 지우지 않는다
+    expect(await removeIfAbandoned(offline.presence!.host!.changedAt + 1000)).toBe(false);
+    expect(await removeIfAbandoned(offline.presence!.host!.changedAt + DISCONNECT_TIMEOUT_MS)).toBe(true);
+    // 방이 지워져 같은 코드로 새 방을 만들 수 있다
+    expect(await lobby.stores.roomStore.insertRoom(createTestRoom('KLMNO', lobby.id))).toBe(true);
+  });
+
+  it('keeps chat messages and moves written at the same time', async () => {
+    const { code, host, guest } = await startGame();
+
+    await Promise.all([
+      playMove(host, 'e2', 'e4'),
+      chat(guest, code, '안녕하세요'),
+      chat(host, code, '잘 부탁해요')
+    ]);
+    const room = await guest.waitForRoom(room => room.moves?.length === 1 && room.messages?.length === 2);
+
+    expect(room.messages?.map(message => message.text).sort()).toEqual(['안녕하세요', '잘 부탁해요']);
+    expect(room.fen).not.toBe(DEFAULT_POSITION);
+  });
+
+  it('pauses when a client disconnects and gives the win after the timeout', async () => {
+    const { code, host, guest } = await startGame();
+    guest.stores.roomStore.trackPresence(code, 'guest');
+    host.stores.roomStore.trackPresence(code, 'host');
+    await host.waitForRoom(room => !!room.presence?.guest?.online);
+
+    await guest.stores.close();
+    const offline = await host.waitForRoom(room => room.presence?.guest?.online === false);
+
+    await host.stores.roomStore.updateRoom(code, (current) => pauseForDisconnect(current, 'guest'));
+    const paused = await host.waitForRoom(room => room.status === 'paused');
+    expect(paused.disconnectedPlayer).toBe('guest');
+    expect(paused.disconnectedAt).toBe(offline.presence?.guest?.changedAt);
+    expect(resumeForReconnect(paused, Date.now())).toBeNull();
+
+    await host.stores.roomStore.updateRoom(code, (current) => finishForDisconnect(current, paused.disconnectedAt!));
+    const finished = await host.waitForRoom(room => room.status === 'finished');
+    expect(finished.winner).toBe('host');
+    expect(finished.endReason).toBe('disconnect');
+  });
+
+  it('resumes without charging the pause to the side to move', async () => {
+    const { code, host, guest } = await startGame();
+    host.stores.roomStore.trackPresence(code, 'host');
+    await guest.waitForRoom(room => !!room.presence?.host?.online);
+
+    const before = guest.room()!;
+    await guest.stores.roomStore.updateRoom(code, (current) => ({
+      ...current,
+      status: 'paused',
+      disconnectedPlayer: 'host',
+      disconnectedAt: before.turnStartTime
+    }));
+
+    // 30초 뒤에 호스트가 돌아왔다고 보고 재개
+    const result = await guest.stores.roomStore.updateRoom(code, (current) => resumeForReconnect(current, before.turnStartTime + 30_000));
+    expect(result.committed).toBe(true);
+    expect(result.room?.status).toBe('playing');
+    expect(result.room!.turnStartTime - before.turnStartTime).toBeGreaterThanOrEqual(30_000);
+  });
+
+  it('reclaims the seat after a reload without being paused again', async () => {
+    const { code, host, guest } = await startGame();
+    guest.stores.roomStore.trackPresence(code, 'guest');
+    await host.waitForRoom(room => !!room.presence?.guest?.online);
+
+    // 게스트가 새로고침 - 연결이 끊겨 멈춘 뒤 새 접속 id로 다시 들어온다
+    await guest.stores.close();
+    await host.waitForRoom(room => room.presence?.guest?.online === false);
+    await host.stores.roomStore.updateRoom(code, (current) => pauseForDisconnect(current, 'guest'));
+    const paused = await host.waitForRoom(room => room.status === 'paused');
+
+    const reloaded = createClient(`memory-store-test-${storeCount}`, code);
+    const session = { code, role: 'guest' as const, playerId: guest.id };
+    const result = await reloaded.stores.roomStore.updateRoom(code, (current) => reclaimSeat(current, session, reloaded.id, Date.now()));
+    expect(result.committed).toBe(true);
+
+    // 같은 쓰기에서 online이 되므로 호스트가 다시 멈추거나 승리 처리하지 않는다
+    const room = await host.waitForRoom(room => room.guestId === reloaded.id);
+    expect(room.status).toBe('playing');
+    expect(room.presence?.guest?.online).toBe(true);
+    expect(pauseForDisconnect(room, 'guest')).toBeNull();
+    expect(finishForDisconnect(room, paused.disconnectedAt!)).toBeNull();
+  });
+
+  it('finishes the game for both clients when one resigns', async () => {
+    const { code, host, guest } = await startGame();
+    await playMove(host, 'd2', 'd4');
+    await guest.waitForRoom(room => room.moves?.length === 1);
+
+    // 호스트가 무승부를 제안한 상태에서 게스트(흑)가 기권 - 백(호스트) 승리, 제안은 사라진다
+    await host.stores.roomStore.updateRoom(code, (current) => ({ ...current, drawOffer: 'host' }));
+    await guest.waitForRoom(room => room.drawOffer === 'host');
+    await guest.stores.roomStore.updateRoom(code, (current) => resignRoom(current, 'guest', 'resign'));
+    const room = await host.waitForRoom(room => room.status === 'finished');
+
+    expect(room.winner).toBe('host');
+    expect(room.endReason).toBe('resign');
+    expect(room.previousLoser).toBe('guest');
+    expect(room.drawOffer).toBeNull();
+
+    // 이미 끝난 게임은 다시 기권할 수 없다
+    const again = await host.stores.roomStore.updateRoom(code, (current) => resignRoom(current, 'host', 'resign'));
+    expect(again.committed).toBe(false);
+  });
+
+  it('lets a player leave a paused game and lose by abandonment', async () => {
+    const { code, host, guest } = await startGame();
+
+    await host.stores.roomStore.updateRoom(code, (current) => ({
+      ...current,
+      status: 'paused',
+      disconnectedPlayer: 'guest',
+      disconnectedAt: Date.now(),
+      takebackRequest: { by: 'host', plies: 1, moveCount: 0 }
+    }));
+    await host.waitForRoom(room => room.status === 'paused');
+
+    // 일시정지 중에는 기권할 수 없지만 나가기는 된다
+    expect((await host.stores.roomStore.updateRoom(code, (current) => resignRoom(current, 'host', 'resign'))).committed).toBe(false);
+    await host.stores.roomStore.updateRoom(code, (current) => resignRoom(current, 'host', 'abandon'));
+    const room = await guest.waitForRoom(room => room.status === 'finished');
+
+    expect(room.winner).toBe('guest');
+    expect(room.endReason).toBe('abandon');
+    expect(room.takebackRequest).toBeNull();
+    expect(room.disconnectedPlayer).toBeNull();
+  });
+});
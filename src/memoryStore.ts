@@ -0,0 +1,260 @@
+import type { Stores, Unsubscribe, RoomWriteResult } from './store';
+import type { Room, User, ArchivedGame } from './types';
+
+// 메모리 저장소 - Firebase 없이 실행 (VITE_STORE=memory)
+// 같은 브라우저의 탭끼리 IndexedDB를 공유한다. readwrite 트랜잭션은 탭 사이에서도 차례로 실행되므로
+// 방 쓰기는 모두 최신 방을 읽고 바꾸는 진짜 트랜잭션 (다른 탭이 먼저 쓴 수를 덮어쓰지 않는다)
+// 바뀐 저장소 이름만 BroadcastChannel로 알리고, 구독자는 IndexedDB에서 다시 읽는다
+
+type StoreName = 'rooms' | 'users' | 'games';
+
+interface ChannelMessage {
+  type: 'changed';
+  storeName: StoreName;
+}
+
+const DEFAULT_NAME = 'chess-memory-store';
+
+const createId = (prefix: string): string => `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openDatabase = (name: string): Promise<IDBDatabase> => {
+  const request = indexedDB.open(name, 1);
+  request.onupgradeneeded = () => {
+    const database = request.result;
+    database.createObjectStore('rooms', { keyPath: 'code' });
+    database.createObjectStore('users', { keyPath: 'id' });
+    database.createObjectStore('games', { keyPath: 'id' });
+  };
+  return requestResult(request);
+};
+
+export interface MemoryStores extends Stores {
+  // 연결 끊기 - 접속 중으로 표시한 presence를 offline으로 쓰고 닫는다 (Firebase onDisconnect와 같게)
+  close: () => Promise<void>;
+}
+
+// name이 같은 저장소끼리 상태를 공유한다 (테스트는 이름을 바꿔 서로 분리)
+export const createMemoryStores = (name: string = DEFAULT_NAME): MemoryStores => {
+  const database = openDatabase(name);
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(name) : null;
+  const listeners: Record<StoreName, Set<() => void>> = { rooms: new Set(), users: new Set(), games: new Set() };
+  // 접속 중으로 표시한 presence - 연결이 끊기면 offline으로 바꾼다
+  const disconnectHooks = new Set<() => Promise<void>>();
+
+  const notify = (storeName: StoreName) => listeners[storeName].forEach(listener => listener());
+
+  channel?.addEventListener('message', (event: MessageEvent<ChannelMessage>) => notify(event.data.storeName));
+
+  const changed = (storeName: StoreName) => {
+    channel?.postMessage({ type: 'changed', storeName } satisfies ChannelMessage);
+    notify(storeName);
+  };
+
+  // 저장소 하나에 대한 트랜잭션 - run이 던지면 취소
+  const withStore = async <T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => Promise<T>
+  ): Promise<T> => {
+    const transaction = (await database).transaction(storeName, mode);
+    const done = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+
+    try {
+      const result = await run(transaction.objectStore(storeName));
+      await done;
+      return result;
+    } catch (error) {
+      done.catch(() => {});
+      if (!transaction.error) transaction.abort();
+      throw error;
+    }
+  };
+
+  const getRoom = (code: string) => withStore('rooms', 'readonly', async (store) => {
+    return (await requestResult(store.get(code)) as Room | undefined) ?? null;
+  });
+
+  // 최신 방으로 mutate를 불러 같은 트랜잭션 안에서 쓴다. mutate가 null이면 쓰지 않는다
+  const transactRoom = async (code: string, mutate: (room: Room) => Room | null): Promise<RoomWriteResult> => {
+    const result = await withStore('rooms', 'readwrite', async (store): Promise<RoomWriteResult> => {
+      const current = (await requestResult(store.get(code)) as Room | undefined) ?? null;
+      if (!current) return { committed: false, room: null };
+
+      const next = mutate(structuredClone(current));
+      if (!next) return { committed: false, room: current };
+
+      store.put(next);
+      return { committed: true, room: next };
+    });
+    if (result.committed) changed('rooms');
+    return result;
+  };
+
+  const getAll = <T>(storeName: StoreName) => withStore(storeName, 'readonly', async (store) => {
+    return await requestResult(store.getAll()) as T[];
+  });
+
+  const put = async (storeName: StoreName, value: User | ArchivedGame) => {
+    await withStore(storeName, 'readwrite', async (store) => {
+      await requestResult(store.put(value));
+    });
+    changed(storeName);
+  };
+
+  // 저장소가 바뀔 때마다 read로 다시 읽어 값이 달라졌을 때만 알린다
+  // 구독 직후에도 현재 값으로 한 번 부른다 (Firebase onValue와 같게). 읽기는 순서대로 처리
+  const subscribe = <T>(storeName: StoreName, read: () => Promise<T>, onChange: (value: T) => void): Unsubscribe => {
+    let active = true;
+    let last: string | undefined;
+    let queue = Promise.resolve();
+
+    const refresh = () => {
+      queue = queue
+        .then(read)
+        .then((value) => {
+          const serialized = JSON.stringify(value);
+          if (!active || serialized === last) return;
+          last = serialized;
+          onChange(value);
+        })
+        .catch((error) => console.error('메모리 저장소 읽기 실패:', error));
+    };
+
+    listeners[storeName].add(refresh);
+    refresh();
+    return () => {
+      active = false;
+      listeners[storeName].delete(refresh);
+    };
+  };
+
+  const runDisconnectHooks = () => Promise.all([...disconnectHooks].map(hook => hook()));
+
+  const handlePageHide = () => {
+    runDisconnectHooks().catch((error) => console.error('접속 상태 기록 실패:', error));
+  };
+  if (typeof window !== 'undefined') window.addEventListener('pagehide', handlePageHide);
+
+  return {
+    roomStore: {
+      subscribeRoom: (code, onChange) => subscribe('rooms', () => getRoom(code), onChange),
+
+      subscribeRooms: (onChange) => subscribe('rooms', () => getAll<Room>('rooms'), onChange),
+
+      insertRoom: async (room) => {
+        const inserted = await withStore('rooms', 'readwrite', async (store) => {
+          if (await requestResult(store.get(room.code))) return false;
+          store.put(room);
+          return true;
+        });
+        if (inserted) changed('rooms');
+        return inserted;
+      },
+
+      updateRoom: (code, mutate) => transactRoom(code, (current) => {
+        const next = mutate(current);
+        return next && { ...next, version: (current.version ?? 0) + 1 };
+      }),
+
+      // 같은 트랜잭션에서 fields만 바꾼다 (그 사이 다른 탭이 쓴 수는 유지)
+      patchRoom: async (code, fields) => {
+        await transactRoom(code, (current) => ({ ...current, ...fields }));
+      },
+
+      appendMessage: async (code, message) => {
+        await transactRoom(code, (current) => ({ ...current, messages: [...(current.messages || []), message] }));
+      },
+
+      // onDisconnect 대신 pagehide / close에서 offline을 쓴다 (뒤로 가기 캐시에서 돌아오면 다시 online)
+      trackPresence: (code, role) => {
+        let active = true;
+        const setOnline = (online: boolean) => transactRoom(code, (current) => ({
+          ...current,
+          presence: { ...current.presence, [role]: { online, changedAt: Date.now() } }
+        }));
+        const goOffline = async () => {
+          await setOnline(false);
+        };
+        const handlePageShow = () => {
+          if (!active) return;
+          setOnline(true).catch((error) => console.error('접속 상태 기록 실패:', error));
+        };
+
+        disconnectHooks.add(goOffline);
+        handlePageShow();
+        if (typeof window !== 'undefined') window.addEventListener('pageshow', handlePageShow);
+        return () => {
+          active = false;
+          disconnectHooks.delete(goOffline);
+          if (typeof window !== 'undefined') window.removeEventListener('pageshow', handlePageShow);
+        };
+      },
+
+      removeRoom: async (code) => {
+        await withStore('rooms', 'readwrite', async (store) => {
+          await requestResult(store.delete(code));
+        });
+        changed('rooms');
+      },
+
+      removeRoomIf: async (code, shouldRemove) => {
+        const removed = await withStore('rooms', 'readwrite', async (store) => {
+          const current = await requestResult(store.get(code)) as Room | undefined;
+          if (!current || !shouldRemove(current)) return false;
+          await requestResult(store.delete(code));
+          return true;
+        });
+        if (removed) changed('rooms');
+        return removed;
+      },
+
+      // 같은 브라우저의 탭끼리는 시계가 같다
+      subscribeServerTimeOffset: (onChange) => {
+        onChange(0);
+        return () => {};
+      }
+    },
+
+    userStore: {
+      signIn: async () => createId('player'),
+
+      getUser: (id) => withStore('users', 'readonly', async (store) => {
+        return (await requestResult(store.get(id)) as User | undefined) ?? null;
+      }),
+
+      getUsers: () => getAll<User>('users'),
+
+      subscribeUsers: (onChange) => subscribe('users', () => getAll<User>('users'), onChange),
+
+      saveUser: (user) => put('users', user),
+
+      // 메모리 저장소에는 설정이 없다 (기본 코드 사용)
+      getRegistrationCode: async () => null,
+
+      saveGame: (game) => put('games', game),
+
+      getUserGames: async (userId) => {
+        const games = await getAll<ArchivedGame>('games');
+        return games.filter(game => game.hostUserId === userId || game.guestUserId === userId);
+      }
+    },
+
+    close: async () => {
+      await runDisconnectHooks();
+      disconnectHooks.clear();
+      Object.values(listeners).forEach(set => set.clear());
+      if (typeof window !== 'undefined') window.removeEventListener('pagehide', handlePageHide);
+      channel?.close();
+      (await database).close();
+    }
+  };
+};
@@ -0,0 +1,218 @@
+import { Chess } from 'chess.js';
+import { tryMove, loadChess } from './chessRules';
+import type { MoveRecord, Opening } from './types';
+
+// 내장 오프닝 북 (오프라인) - [ECO, 이름, SAN 수순]
+const OPENING_BOOK: [string, string, string][] = [
+  // 1.e4 e5
+  ['C20', "King's Pawn Game", 'e4 e5'],
+  ['C21', 'Center Game', 'e4 e5 d4 exd4'],
+  ['C21', 'Danish Gambit', 'e4 e5 d4 exd4 c3'],
+  ['C23', "Bishop's Opening", 'e4 e5 Bc4'],
+  ['C25', 'Vienna Game', 'e4 e5 Nc3'],
+  ['C30', "King's Gambit", 'e4 e5 f4'],
+  ['C31', "King's Gambit Declined: Falkbeer Countergambit", 'e4 e5 f4 d5'],
+  ['C33', "King's Gambit Accepted", 'e4 e5 f4 exf4'],
+  ['C40', "King's Knight Opening", 'e4 e5 Nf3'],
+  ['C40', 'Latvian Gambit', 'e4 e5 Nf3 f5'],
+  ['C41', 'Philidor Defense', 'e4 e5 Nf3 d6'],
+  ['C42', "Petrov's Defense", 'e4 e5 Nf3 Nf6'],
+  ['C44', "King's Knight Opening: Normal Variation", 'e4 e5 Nf3 Nc6'],
+  ['C44', 'Ponziani Opening', 'e4 e5 Nf3 Nc6 c3'],
+  ['C44', 'Scotch Game', 'e4 e5 Nf3 Nc6 d4'],
+  ['C45', 'Scotch Game', 'e4 e5 Nf3 Nc6 d4 exd4 Nxd4'],
+  ['C46', 'Three Knights Opening', 'e4 e5 Nf3 Nc6 Nc3'],
+  ['C47', 'Four Knights Game', 'e4 e5 Nf3 Nc6 Nc3 Nf6'],
+  ['C48', 'Four Knights Game: Spanish Variation', 'e4 e5 Nf3 Nc6 Nc3 Nf6 Bb5'],
+  ['C50', 'Italian Game', 'e4 e5 Nf3 Nc6 Bc4'],
+  ['C50', 'Italian Game: Giuoco Piano', 'e4 e5 Nf3 Nc6 Bc4 Bc5'],
+  ['C51', 'Italian Game: Evans Gambit', 'e4 e5 Nf3 Nc6 Bc4 Bc5 b4'],
+  ['C53', 'Italian Game: Classical Variation', 'e4 e5 Nf3 Nc6 Bc4 Bc5 c3'],
+  ['C55', 'Italian Game: Two Knights Defense', 'e4 e5 Nf3 Nc6 Bc4 Nf6'],
+  ['C57', 'Italian Game: Two Knights Defense, Knight Attack', 'e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5'],
+  ['C60', 'Ruy Lopez', 'e4 e5 Nf3 Nc6 Bb5'],
+  ['C62', 'Ruy Lopez: Steinitz Defense', 'e4 e5 Nf3 Nc6 Bb5 d6'],
+  ['C63', 'Ruy Lopez: Schliemann Defense', 'e4 e5 Nf3 Nc6 Bb5 f5'],
+  ['C65', 'Ruy Lopez: Berlin Defense', 'e4 e5 Nf3 Nc6 Bb5 Nf6'],
+  ['C68', 'Ruy Lopez: Exchange Variation', 'e4 e5 Nf3 Nc6 Bb5 a6 Bxc6'],
+  ['C70', 'Ruy Lopez: Morphy Defense', 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4'],
+  ['C78', 'Ruy Lopez: Morphy Defense', 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O'],
+  ['C84', 'Ruy Lopez: Closed', 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7'],
+
+  // 1.e4 기타
+  ['B00', "King's Pawn Game", 'e4'],
+  ['B00', 'Nimzowitsch Defense', 'e4 Nc6'],
+  ['B00', 'Owen Defense', 'e4 b6'],
+  ['B01', 'Scandinavian Defense', 'e4 d5'],
+  ['B02', "Alekhine's Defense", 'e4 Nf6'],
+  ['B06', 'Modern Defense', 'e4 g6'],
+  ['B07', 'Pirc Defense', 'e4 d6 d4 Nf6'],
+  ['B10', 'Caro-Kann Defense', 'e4 c6'],
+  ['B12', 'Caro-Kann Defense: Advance Variation', 'e4 c6 d4 d5 e5'],
+  ['B13', 'Caro-Kann Defense: Exchange Variation', 'e4 c6 d4 d5 exd5 cxd5'],
+  ['B15', 'Caro-Kann Defense', 'e4 c6 d4 d5 Nc3'],
+  ['B18', 'Caro-Kann Defense: Classical Variation', 'e4 c6 d4 d5 Nc3 dxe4 Nxe4 Bf5'],
+  ['C00', 'French Defense', 'e4 e6'],
+  ['C01', 'French Defense: Exchange Variation', 'e4 e6 d4 d5 exd5'],
+  ['C02', 'French Defense: Advance Variation', 'e4 e6 d4 d5 e5'],
+  ['C03', 'French Defense: Tarrasch Variation', 'e4 e6 d4 d5 Nd2'],
+  ['C10', 'French Defense: Paulsen Variation', 'e4 e6 d4 d5 Nc3'],
+  ['C11', 'French Defense: Classical Variation', 'e4 e6 d4 d5 Nc3 Nf6'],
+  ['C15', 'French Defense: Winawer Variation', 'e4 e6 d4 d5 Nc3 Bb4'],
+
+  // 시실리안
+  ['B20', 'Sicilian Defense', 'e4 c5'],
+  ['B21', 'Sicilian Defense: Smith-Morra Gambit', 'e4 c5 d4 cxd4 c3'],
+  ['B22', 'Sicilian Defense: Alapin Variation', 'e4 c5 c3'],
+  ['B23', 'Sicilian Defense: Closed', 'e4 c5 Nc3'],
+  ['B27', 'Sicilian Defense', 'e4 c5 Nf3'],
+  ['B30', 'Sicilian Defense: Old Sicilian', 'e4 c5 Nf3 Nc6'],
+  ['B32', 'Sicilian Defense: Open', 'e4 c5 Nf3 Nc6 d4 cxd4 Nxd4'],
+  ['B33', 'Sicilian Defense: Sveshnikov Variation', 'e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6 Nc3 e5'],
+  ['B34', 'Sicilian Defense: Accelerated Dragon', 'e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 g6'],
+  ['B40', 'Sicilian Defense: French Variation', 'e4 c5 Nf3 e6'],
+  ['B41', 'Sicilian Defense: Kan Variation', 'e4 c5 Nf3 e6 d4 cxd4 Nxd4 a6'],
+  ['B44', 'Sicilian Defense: Taimanov Variation', 'e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nc6'],
+  ['B50', 'Sicilian Defense: Modern Variations', 'e4 c5 Nf3 d6'],
+  ['B51', 'Sicilian Defense: Moscow Variation', 'e4 c5 Nf3 d6 Bb5+'],
+  ['B54', 'Sicilian Defense: Open', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4'],
+  ['B56', 'Sicilian Defense: Classical Variation', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 Nc6'],
+  ['B70', 'Sicilian Defense: Dragon Variation', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6'],
+  ['B80', 'Sicilian Defense: Scheveningen Variation', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 e6'],
+  ['B90', 'Sicilian Defense: Najdorf Variation', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6'],
+
+  // 1.d4 d5
+  ['D00', "Queen's Pawn Game", 'd4 d5'],
+  ['D00', 'Blackmar-Diemer Gambit', 'd4 d5 e4'],
+  ['D00', 'London System', 'd4 d5 Bf4'],
+  ['D02', "Queen's Pawn Game", 'd4 d5 Nf3'],
+  ['D02', 'London System', 'd4 d5 Nf3 Nf6 Bf4'],
+  ['D06', "Queen's Gambit", 'd4 d5 c4'],
+  ['D07', "Queen's Gambit Declined: Chigorin Defense", 'd4 d5 c4 Nc6'],
+  ['D08', "Queen's Gambit Declined: Albin Countergambit", 'd4 d5 c4 e5'],
+  ['D10', 'Slav Defense', 'd4 d5 c4 c6'],
+  ['D20', "Queen's Gambit Accepted", 'd4 d5 c4 dxc4'],
+  ['D30', "Queen's Gambit Declined", 'd4 d5 c4 e6'],
+  ['D31', "Queen's Gambit Declined", 'd4 d5 c4 e6 Nc3'],
+  ['D32', 'Tarrasch Defense', 'd4 d5 c4 e6 Nc3 c5'],
+  ['D35', "Queen's Gambit Declined: Exchange Variation", 'd4 d5 c4 e6 Nc3 Nf6 cxd5'],
+  ['D43', 'Semi-Slav Defense', 'd4 d5 c4 e6 Nc3 Nf6 Nf3 c6'],
+
+  // 1.d4 Nf6 (인디언)
+  ['A40', "Queen's Pawn Game", 'd4'],
+  ['A43', 'Old Benoni Defense', 'd4 c5'],
+  ['A45', 'Indian Defense', 'd4 Nf6'],
+  ['A45', 'Trompowsky Attack', 'd4 Nf6 Bg5'],
+  ['A46', 'Indian Defense', 'd4 Nf6 Nf3'],
+  ['A50', 'Indian Defense: Normal Variation', 'd4 Nf6 c4'],
+  ['A51', 'Budapest Gambit', 'd4 Nf6 c4 e5'],
+  ['A56', 'Benoni Defense', 'd4 Nf6 c4 c5'],
+  ['A57', 'Benko Gambit', 'd4 Nf6 c4 c5 d5 b5'],
+  ['A60', 'Benoni Defense: Modern Variation', 'd4 Nf6 c4 c5 d5 e6'],
+  ['A80', 'Dutch Defense', 'd4 f5'],
+  ['D80', 'Grünfeld Defense', 'd4 Nf6 c4 g6 Nc3 d5'],
+  ['D85', 'Grünfeld Defense: Exchange Variation', 'd4 Nf6 c4 g6 Nc3 d5 cxd5 Nxd5'],
+  ['E00', 'Indian Defense', 'd4 Nf6 c4 e6'],
+  ['E01', 'Catalan Opening', 'd4 Nf6 c4 e6 g3'],
+  ['E10', 'Indian Defense', 'd4 Nf6 c4 e6 Nf3'],
+  ['E11', 'Bogo-Indian Defense', 'd4 Nf6 c4 e6 Nf3 Bb4+'],
+  ['E12', "Queen's Indian Defense", 'd4 Nf6 c4 e6 Nf3 b6'],
+  ['E20', 'Nimzo-Indian Defense', 'd4 Nf6 c4 e6 Nc3 Bb4'],
+  ['E60', "King's Indian Defense", 'd4 Nf6 c4 g6'],
+  ['E61', "King's Indian Defense", 'd4 Nf6 c4 g6 Nc3 Bg7'],
+  ['E70', "King's Indian Defense: Normal Variation", 'd4 Nf6 c4 g6 Nc3 Bg7 e4'],
+  ['E90', "King's Indian Defense: Normal Variation", 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3'],
+
+  // 플랭크 오프닝
+  ['A00', 'Polish Opening', 'b4'],
+  ['A00', 'Grob Opening', 'g4'],
+  ['A01', 'Nimzo-Larsen Attack', 'b3'],
+  ['A02', "Bird's Opening", 'f4'],
+  ['A02', "Bird's Opening: From's Gambit", 'f4 e5'],
+  ['A04', 'Zukertort Opening', 'Nf3'],
+  ['A05', 'Zukertort Opening', 'Nf3 Nf6'],
+  ['A06', 'Zukertort Opening', 'Nf3 d5'],
+  ['A07', "King's Indian Attack", 'Nf3 d5 g3'],
+  ['A09', 'Réti Opening', 'Nf3 d5 c4'],
+  ['A10', 'English Opening', 'c4'],
+  ['A13', 'English Opening: Agincourt Defense', 'c4 e6'],
+  ['A15', 'English Opening: Anglo-Indian Defense', 'c4 Nf6'],
+  ['A20', "English Opening: King's English Variation", 'c4 e5'],
+  ['A30', 'English Opening: Symmetrical Variation', 'c4 c5']
+];
+
+interface BookEntry extends Opening {
+  ply: number; // 수순 길이 - 같은 국면이면 긴 수순의 이름을 쓴다
+}
+
+interface BookIndex {
+  openings: Map<string, BookEntry>;              // 국면 → 오프닝
+  continuations: Map<string, Map<string, number>>; // 국면 → (다음 수 SAN → 수순 수)
+}
+
+// 수 카운터를 뺀 FEN - 수순이 달라도 같은 국면이면 같은 오프닝 (트랜스포지션)
+const toPositionKey = (fen: string): string => fen.split(' ').slice(0, 4).join(' ');
+
+let bookIndex: BookIndex | null = null;
+
+// 처음 쓸 때 한 번만 수순을 두어 국면 색인을 만든다
+const getBookIndex = (): BookIndex => {
+  if (bookIndex) return bookIndex;
+
+  const openings = new Map<string, BookEntry>();
+  const continuations = new Map<string, Map<string, number>>();
+
+  for (const [eco, name, line] of OPENING_BOOK) {
+    const chess = new Chess();
+    const sans = line.split(' ');
+    for (const san of sans) {
+      const key = toPositionKey(chess.fen());
+      const next = continuations.get(key) ?? new Map<string, number>();
+      next.set(san, (next.get(san) ?? 0) + 1);
+      continuations.set(key, next);
+      chess.move(san);
+    }
+
+    const key = toPositionKey(chess.fen());
+    const existing = openings.get(key);
+    if (!existing || existing.ply < sans.length) {
+      openings.set(key, { eco, name, ply: sans.length });
+    }
+  }
+
+  bookIndex = { openings, continuations };
+  return bookIndex;
+};
+
+// 기보에서 북에 있는 가장 마지막 국면의 오프닝 (표준 시작 국면이 아니면 null)
+export const getOpening = (startFen: string, moves: MoveRecord[]): Opening | null => {
+  const { openings } = getBookIndex();
+  const chess = loadChess(startFen);
+  let found: Opening | null = null;
+
+  for (const record of moves) {
+    if (!tryMove(chess, record.from, record.to, record.promotion ?? undefined)) break;
+    const entry = openings.get(toPositionKey(chess.fen()));
+    if (entry) found = { eco: entry.eco, name: entry.name };
+  }
+  return found;
+};
+
+// 현재 국면에서 북에 있는 다음 수 (수순이 많은 순) - 두면 도달하는 오프닝 포함
+export const getBookMoves = (fen: string): { san: string; lines: number; opening: Opening | null }[] => {
+  const { openings, continuations } = getBookIndex();
+  const next = continuations.get(toPositionKey(fen));
+  if (!next) return [];
+
+  return [...next.entries()]
+    .map(([san, lines]) => {
+      const chess = new Chess(fen);
+      chess.move(san);
+      const entry = openings.get(toPositionKey(chess.fen()));
+      return { san, lines, opening: entry ? { eco: entry.eco, name: entry.name } : null };
+    })
+    .sort((a, b) => b.lines - a.lines);
+};
+
+// 기록 필터용 오프닝 계열 (예: "Sicilian Defense: Najdorf Variation" → "Sicilian Defense")
+export const getOpeningFamily = (opening: Opening): string => opening.name.split(':')[0];
@@ -0,0 +1,81 @@
+import { Chess } from 'chess.js';
+import { tryMove, toMoveRecord, getWhiteRole } from './chessRules';
+import { getVariant, getVariantRules } from './variants';
+import type { Room, ImportedGame } from './types';
+
+// PGN 날짜 형식 (YYYY.MM.DD)
+const formatPgnDate = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}.${month}.${day}`;
+};
+
+// 방의 winner를 PGN Result 태그로 변환
+const getPgnResult = (room: Room): string => {
+  if (!room.winner) return '*';
+  if (room.winner === 'draw') return '1/2-1/2';
+  return room.winner === getWhiteRole(room) ? '1-0' : '0-1';
+};
+
+// 기보의 SAN으로 직접 쓰는 PGN 본문 (변형 규칙 - chess.js가 특수 수를 재생할 수 없다)
+const buildMoveText = (room: Room): string => {
+  const moves = (room.moves || []).map((record, index) => {
+    return index % 2 === 0 ? `${index / 2 + 1}. ${record.san}` : record.san;
+  });
+  return [...moves, getPgnResult(room)].join(' ');
+};
+
+// 방의 기보를 표준 PGN으로 변환 (Seven Tag Roster 포함)
+export const buildPgn = (room: Room): string => {
+  const rules = getVariantRules(room);
+  const isStandard = getVariant(room) === 'standard';
+  const chess = new Chess();
+  if (room.startFen) {
+    chess.load(room.startFen, { skipValidation: true });
+  }
+  if (isStandard) {
+    for (const record of room.moves || []) {
+      if (!tryMove(chess, record.from, record.to, record.promotion ?? undefined)) break;
+    }
+  }
+
+  const whiteIsHost = getWhiteRole(room) === 'host';
+  const hostName = room.hostNickname;
+  const guestName = room.guestNickname || '?';
+
+  chess.setHeader('Event', '3D 체스 온라인');
+  chess.setHeader('Site', window.location.origin);
+  chess.setHeader('Date', formatPgnDate(room.moves?.[0]?.timestamp ?? room.createdAt));
+  chess.setHeader('Round', '-');
+  chess.setHeader('White', whiteIsHost ? hostName : guestName);
+  chess.setHeader('Black', whiteIsHost ? guestName : hostName);
+  chess.setHeader('Result', getPgnResult(room));
+
+  if (isStandard) return chess.pgn();
+
+  chess.setHeader('Variant', rules.pgnName);
+  if (rules.toPgnFen && room.startFen) {
+    chess.setHeader('FEN', rules.toPgnFen(room.startFen));
+  }
+  const headers = Object.entries(chess.getHeaders()).map(([key, value]) => `[${key} "${value}"]`);
+  return `${headers.join('\n')}\n\n${buildMoveText(room)}`;
+};
+
+// PGN 문자열을 파싱. 형식이 잘못되었거나 불법 수가 있으면 null
+export const parsePgn = (pgn: string): ImportedGame | null => {
+  const chess = new Chess();
+  try {
+    chess.loadPgn(pgn.trim());
+  } catch {
+    return null;
+  }
+
+  const history = chess.history({ verbose: true });
+  return {
+    headers: chess.getHeaders(),
+    startFen: history[0]?.before ?? chess.fen(),
+    fen: chess.fen(),
+    moves: history.map(move => toMoveRecord(move, 0, Date.now()))
+  };
+};
@@ -0,0 +1,123 @@
+import { Chess, validateFen } from 'chess.js';
+import type { ChessPiece, PositionSetup } from './types';
+
+// 보드 편집기 - 편집 상태 <-> FEN 변환과 국면 검증
+
+const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+
+// 빈 보드 (백 차례, 캐슬링 없음)
+export const createEmptySetup = (): PositionSetup => ({
+  pieces: [],
+  turn: 'w',
+  castling: { K: false, Q: false, k: false, q: false },
+  epSquare: null
+});
+
+// 편집 상태를 FEN으로 (수 번호는 1부터)
+export const setupToFen = ({ pieces, turn, castling, epSquare }: PositionSetup): string => {
+  const rows: string[] = [];
+  for (let rank = 8; rank >= 1; rank--) {
+    let row = '';
+    let empty = 0;
+    for (const file of FILES) {
+      const piece = pieces.find(p => p.square === `${file}${rank}`);
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      if (empty > 0) row += empty;
+      empty = 0;
+      row += piece.color === 'w' ? piece.type.toUpperCase() : piece.type;
+    }
+    rows.push(empty > 0 ? `${row}${empty}` : row);
+  }
+
+  const rights = (['K', 'Q', 'k', 'q'] as const).filter(right => castling[right]).join('');
+  return `${rows.join('/')} ${turn} ${rights || '-'} ${epSquare || '-'} 0 1`;
+};
+
+// FEN을 편집 상태로 (형식이 잘못되었으면 null - 킹 수 등 국면 검증은 하지 않는다)
+export const fenToSetup = (fen: string): PositionSetup | null => {
+  const fields = fen.trim().split(/\s+/);
+  if (fields.length === 4) fields.push('0', '1');
+
+  let chess: Chess;
+  try {
+    chess = new Chess(fields.join(' '), { skipValidation: true });
+  } catch {
+    return null;
+  }
+
+  const pieces: ChessPiece[] = chess.board().flat().flatMap(piece => (
+    piece ? [{ type: piece.type, color: piece.color, square: piece.square }] : []
+  ));
+  const castling = fields[2] ?? '-';
+  return {
+    pieces,
+    turn: chess.turn(),
+    castling: {
+      K: castling.includes('K'),
+      Q: castling.includes('Q'),
+      k: castling.includes('k'),
+      q: castling.includes('q')
+    },
+    epSquare: fields[3] && fields[3] !== '-' ? fields[3] : null
+  };
+};
+
+// 앙파상 칸 후보 - 상대 폰이 방금 2칸 전진했을 수 있는 자리 뒤
+export const getEnPassantCandidates = ({ pieces, turn }: PositionSetup): string[] => {
+  const [epRank, pawnRank, startRank] = turn === 'w' ? ['6', '5', '7'] : ['3', '4', '2'];
+  const opponent = turn === 'w' ? 'b' : 'w';
+  return FILES
+    .filter(file => pieces.some(p => p.square === `${file}${pawnRank}` && p.type === 'p' && p.color === opponent))
+    .filter(file => !pieces.some(p => p.square === `${file}${epRank}` || p.square === `${file}${startRank}`))
+    .map(file => `${file}${epRank}`);
+};
+
+// 캐슬링 권리가 있으려면 킹 / 룩이 처음 자리에 있어야 한다
+const CASTLING_SQUARES = {
+  K: { king: 'e1', rook: 'h1', color: 'w' },
+  Q: { king: 'e1', rook: 'a1', color: 'w' },
+  k: { king: 'e8', rook: 'h8', color: 'b' },
+  q: { king: 'e8', rook: 'a8', color: 'b' }
+} as const;
+
+// 대국을 시작할 수 있는 국면인지 - 문제가 있으면 이유, 없으면 null
+export const validateSetup = (setup: PositionSetup): string | null => {
+  const { pieces, turn, castling, epSquare } = setup;
+  const hasPiece = (square: string, type: string, color: string) => {
+    return pieces.some(p => p.square === square && p.type === type && p.color === color);
+  };
+
+  for (const color of ['w', 'b'] as const) {
+    const kings = pieces.filter(p => p.type === 'k' && p.color === color).length;
+    if (kings !== 1) return `${color === 'w' ? '백' : '흑'} 킹은 정확히 1개여야 합니다`;
+  }
+  if (pieces.some(p => p.type === 'p' && (p.square[1] === '1' || p.square[1] === '8'))) {
+    return '1랭크 / 8랭크에는 폰을 놓을 수 없습니다';
+  }
+
+  for (const right of ['K', 'Q', 'k', 'q'] as const) {
+    const { king, rook, color } = CASTLING_SQUARES[right];
+    if (castling[right] && !(hasPiece(king, 'k', color) && hasPiece(rook, 'r', color))) {
+      return '캐슬링 권리가 킹 / 룩 위치와 맞지 않습니다';
+    }
+  }
+
+  if (epSquare && !getEnPassantCandidates(setup).includes(epSquare)) {
+    return '앙파상 칸이 올바르지 않습니다';
+  }
+
+  const fen = setupToFen(setup);
+  if (!validateFen(fen).ok) return 'FEN 형식이 올바르지 않습니다';
+
+  const chess = new Chess(fen);
+  const [opponentKing] = chess.findPiece({ type: 'k', color: turn === 'w' ? 'b' : 'w' });
+  if (chess.isAttacked(opponentKing, turn)) {
+    return '차례가 아닌 쪽의 킹이 체크 상태입니다';
+  }
+  // 기물 부족 국면은 허용 (엔드게임 연습 등) - 메이트 / 스테일메이트만 막는다
+  if (chess.isCheckmate() || chess.isStalemate()) return '이미 끝난 국면입니다';
+  return null;
+};
@@ -0,0 +1,49 @@
+import type { Chess, Move } from 'chess.js';
+import { userStore } from './store';
+import puzzleData from './puzzles.json';
+import type { Puzzle, User } from './types';
+
+// 내장 퍼즐 세트 (오프라인)
+export const PUZZLES: Puzzle[] = puzzleData;
+
+export const DEFAULT_PUZZLE_RATING = 1500;
+
+// chess.js 수를 UCI 문자열로 (예: e7e8q)
+export const toUci = (move: Pick<Move, 'from' | 'to' | 'promotion'>): string => {
+  return `${move.from}${move.to}${move.promotion ?? ''}`;
+};
+
+// 레이팅이 가까운 퍼즐 중 하나를 무작위로 (방금 푼 퍼즐은 제외)
+export const pickPuzzle = (rating: number, excludeId?: string): Puzzle => {
+  const candidates = PUZZLES
+    .filter(puzzle => puzzle.id !== excludeId)
+    .sort((a, b) => Math.abs(a.rating - rating) - Math.abs(b.rating - rating))
+    .slice(0, 3);
+  return candidates[Math.floor(Math.random() * candidates.length)] ?? PUZZLES[0];
+};
+
+// 방금 둔 수가 해답인지 - 마지막 수는 체크메이트면 다른 수도 정답
+export const isPuzzleMoveCorrect = (puzzle: Puzzle, step: number, move: Move, chess: Chess): boolean => {
+  if (toUci(move) === puzzle.moves[step]) return true;
+  return step === puzzle.moves.length - 1 && chess.isCheckmate();
+};
+
+// Elo 방식 레이팅 변동 (퍼즐 레이팅은 고정)
+export const getNewPuzzleRating = (rating: number, puzzleRating: number, solved: boolean): number => {
+  const expected = 1 / (1 + 10 ** ((puzzleRating - rating) / 400));
+  return Math.round(rating + 32 * ((solved ? 1 : 0) - expected));
+};
+
+// 로그인 유저의 퍼즐 레이팅 / 푼 수 저장 - 갱신된 유저 반환
+export const recordPuzzleResult = async (userId: string, puzzle: Puzzle, solved: boolean): Promise<User | null> => {
+  const userData = await userStore.getUser(userId);
+  if (!userData) return null;
+
+  const updated: User = {
+    ...userData,
+    puzzleRating: getNewPuzzleRating(userData.puzzleRating ?? DEFAULT_PUZZLE_RATING, puzzle.rating, solved),
+    puzzlesSolved: (userData.puzzlesSolved ?? 0) + (solved ? 1 : 0)
+  };
+  await userStore.saveUser(updated);
+  return updated;
+};
@@ -0,0 +1,26 @@
+import type { ActiveRoomSession } from './types';
+
+// 들어가 있는 방을 브라우저에 저장 - 새로고침 / 충돌 후 시작할 때 다시 들어간다
+
+const ACTIVE_ROOM_KEY = 'chessActiveRoom';
+
+export const loadActiveRoom = (): ActiveRoomSession | null => {
+  const saved = localStorage.getItem(ACTIVE_ROOM_KEY);
+  if (!saved) return null;
+
+  try {
+    return JSON.parse(saved) as ActiveRoomSession;
+  } catch (error) {
+    console.error('저장된 방 정보를 읽지 못했습니다:', error);
+    localStorage.removeItem(ACTIVE_ROOM_KEY);
+    return null;
+  }
+};
+
+export const saveActiveRoom = (session: ActiveRoomSession) => {
+  localStorage.setItem(ACTIVE_ROOM_KEY, JSON.stringify(session));
+};
+
+export const clearActiveRoom = () => {
+  localStorage.removeItem(ACTIVE_ROOM_KEY);
+};
@@ -0,0 +1,181 @@
+import { DEFAULT_POSITION, type Chess } from 'chess.js';
+import {
+  toLastMove,
+  toMoveRecord,
+  toPlayerColor,
+  getGameResult,
+  getRoleByColor,
+  getWhiteRole,
+  getPositions,
+  hasMatingMaterial
+} from './chessRules';
+import { applyMoveToClocks, createClocks, getTimeControl, rewindClocks } from './timeControl';
+import type { Room, GameEndReason, PlayedMove, ActiveRoomSession } from './types';
+
+// 방 상태 전이 - 온라인 방과 로컬 게임(봇 대전 / 로컬 대국)이 같은 규칙을 쓴다
+
+// 서버의 방이 내가 보고 있던 국면 그대로인지 (수 번호 + FEN)
+// 다르면 그 화면에서 나온 수 / 판정은 오래된 것이므로 쓰지 않는다
+export const isSamePosition = (current: Room, seen: Room): boolean => {
+  return current.fen === seen.fen && (current.moves || []).length === (seen.moves || []).length;
+};
+
+// 끊긴 쪽이 이 시간 안에 돌아오지 않으면 남은 쪽이 이긴다
+export const DISCONNECT_TIMEOUT_MS = 60_000;
+
+// 버려진 대기 방 - 게스트 없이 기다리던 호스트가 이 시간 넘게 돌아오지 않았다 (새로고침이면 그 안에 돌아온다)
+// presence 기록 전에 끊긴 방은 만든 시각부터 센다
+export const isAbandonedWaitingRoom = (room: Room, now: number): boolean => {
+  if (room.status !== 'waiting' || room.guestId) return false;
+  const host = room.presence?.host;
+  if (host?.online) return false;
+  return now - (host ? host.changedAt : room.createdAt) >= DISCONNECT_TIMEOUT_MS;
+};
+
+// 상대 presence가 offline이면 일시정지 - 서버가 기록한 끊긴 시각부터 (이미 멈췄거나 다시 접속했으면 null)
+export const pauseForDisconnect = (room: Room, disconnected: 'host' | 'guest'): Room | null => {
+  const presence = room.presence?.[disconnected];
+  if (room.status !== 'playing' || room.disconnectedPlayer) return null;
+  if (!presence || presence.online) return null;
+  return { ...room, status: 'paused', disconnectedPlayer: disconnected, disconnectedAt: presence.changedAt };
+};
+
+// 끊겼던 쪽이 다시 접속했으면 재개
+export const resumeForReconnect = (room: Room, now: number): Room | null => {
+  if (room.status !== 'paused' || !room.disconnectedPlayer) return null;
+  if (!room.presence?.[room.disconnectedPlayer]?.online) return null;
+  return resumePausedRoom(room, now);
+};
+
+// 일시정지가 길어짐 - 나간 사람이 지고, 남은 사람이 이긴다
+// disconnectedAt은 판정한 일시정지 (그 사이 재개 / 다시 멈췄으면 null)
+export const finishForDisconnect = (room: Room, disconnectedAt: number): Room | null => {
+  const disconnected = room.disconnectedPlayer;
+  if (room.status !== 'paused' || !disconnected || room.disconnectedAt !== disconnectedAt) return null;
+  if (room.presence?.[disconnected]?.online) return null;
+  return {
+    ...room,
+    status: 'finished',
+    winner: disconnected === 'host' ? 'guest' : 'host',
+    endReason: 'disconnect',
+    previousLoser: disconnected,
+    disconnectedPlayer: null,
+    disconnectedAt: null,
+    takebackRequest: null,
+    drawOffer: null
+  };
+};
+
+// 일시정지 해제 - 멈춰 있던 시간만큼 turnStartTime을 미뤄 차례인 쪽 시계에서 빼지 않는다
+// (끊긴 뒤 일시정지 전에 둔 수가 있으면 그 수부터 멈춘 것으로 본다)
+export const resumePausedRoom = (room: Room, now: number): Room => {
+  const pausedFrom = Math.max(room.disconnectedAt ?? now, room.turnStartTime);
+  return {
+    ...room,
+    status: 'playing',
+    turnStartTime: room.turnStartTime + Math.max(0, now - pausedFrom),
+    disconnectedPlayer: null,
+    disconnectedAt: null
+  };
+};
+
+// 저장해 둔 자리로 다시 들어가기 - 접속 id가 바뀌었으면 자리를 새 id로 옮기고,
+// 내가 끊겨서 멈춘 게임이면 바로 재개한다. 끝난 게임이거나 자리가 다른 사람 것이면 null
+// presence도 같은 쓰기에서 online으로 - 상대가 남은 offline을 보고 다시 멈추거나 승리 처리하지 않도록
+export const reclaimSeat = (room: Room, session: ActiveRoomSession, playerId: string, now: number): Room | null => {
+  if (room.status === 'finished') return null;
+
+  const seatId = session.role === 'host' ? room.hostId : room.guestId;
+  if (seatId !== session.playerId && seatId !== playerId) return null;
+
+  const seated = {
+    ...room,
+    hostId: session.role === 'host' ? playerId : room.hostId,
+    guestId: session.role === 'guest' ? playerId : room.guestId,
+    presence: { ...room.presence, [session.role]: { online: true, changedAt: now } }
+  };
+  const resumed = room.status === 'paused' && room.disconnectedPlayer === session.role;
+  return resumed ? resumePausedRoom(seated, now) : seated;
+};
+
+// 게임 종료 (winnerColor가 null이면 무승부, 무승부면 색 배정 유지)
+export const finishRoom = (room: Room, winnerColor: 'white' | 'black' | null, reason: GameEndReason): Room => {
+  if (winnerColor === null) {
+    return { ...room, status: 'finished', winner: 'draw', endReason: reason, takebackRequest: null, drawOffer: null };
+  }
+
+  const winner = getRoleByColor(room, winnerColor);
+  return {
+    ...room,
+    status: 'finished',
+    winner,
+    endReason: reason,
+    previousLoser: winner === 'host' ? 'guest' : 'host',
+    takebackRequest: null,
+    drawOffer: null
+  };
+};
+
+// 기권 / 게임 중 나가기 - loser가 진다. 기권은 진행 중일 때만, 나가기는 일시정지 중에도 (이미 끝났으면 null)
+export const resignRoom = (room: Room, loser: 'host' | 'guest', reason: 'resign' | 'abandon'): Room | null => {
+  const allowed = reason === 'resign' ? ['playing'] : ['playing', 'paused'];
+  if (!allowed.includes(room.status)) return null;
+
+  const winnerColor = getWhiteRole(room) === loser ? 'black' : 'white';
+  return finishRoom({ ...room, disconnectedPlayer: null, disconnectedAt: null }, winnerColor, reason);
+};
+
+// chess에 move를 둔 직후의 방 상태 - fen / currentTurn / lastMove / 기보 / 시계 / 종료 판정
+export const applyMoveToRoom = (room: Room, chess: Chess, move: PlayedMove, now: number): Room => {
+  const mover = getRoleByColor(room, toPlayerColor(move.color));
+  const next: Room = {
+    ...room,
+    fen: chess.fen(),
+    currentTurn: toPlayerColor(chess.turn()),
+    turnStartTime: now,
+    clocks: applyMoveToClocks(room, toPlayerColor(move.color), now),
+    lastMove: toLastMove(move),
+    moves: [...(room.moves || []), toMoveRecord(move, now - room.turnStartTime, now)],
+    takebackRequest: null, // 수를 두면 대기 중인 무르기 요청은 무효
+    drawOffer: room.drawOffer === mover ? null : room.drawOffer ?? null // 제안한 쪽이 수를 두면 무효
+  };
+
+  // 체크메이트 / 무승부 / 변형 규칙 승리 판정
+  const result = getGameResult(chess, next);
+  if (result) {
+    return finishRoom(next, result.winner, result.reason);
+  }
+  return { ...next, status: 'playing', winner: null, endReason: null };
+};
+
+// 무르기 수락 - 마지막 plies수를 되돌린다 (국면 / 기보 / 시계 / 차례를 함께)
+export const takeBackMoves = (room: Room, plies: number, now: number): Room => {
+  const moves = room.moves || [];
+  const kept = moves.slice(0, moves.length - plies);
+  const positions = getPositions(room.startFen || DEFAULT_POSITION, kept, room);
+  const fen = positions[positions.length - 1];
+  const last = kept[kept.length - 1];
+
+  return {
+    ...room,
+    fen,
+    currentTurn: toPlayerColor(fen.split(' ')[1] === 'b' ? 'b' : 'w'),
+    turnStartTime: now,
+    clocks: rewindClocks(room, moves.slice(kept.length), now),
+    lastMove: last ? { from: last.from, to: last.to, promotion: last.promotion } : null,
+    moves: kept,
+    takebackRequest: null
+  };
+};
+
+// 시간 초과 - 차례인 쪽 시간패 (상대에게 메이트 기물이 없으면 무승부)
+export const flagRoom = (room: Room, chess: Chess): Room => {
+  const flagged = room.currentTurn;
+  const opponent = flagged === 'white' ? 'black' : 'white';
+  const clocks = { ...(room.clocks ?? createClocks(getTimeControl(room))), [flagged]: 0 };
+
+  if (!hasMatingMaterial(chess, opponent === 'white' ? 'w' : 'b')) {
+    return finishRoom({ ...room, clocks }, null, 'timeoutVsInsufficientMaterial');
+  }
+  return finishRoom({ ...room, clocks }, opponent, 'timeout');
+};
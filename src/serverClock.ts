@@ -0,0 +1,12 @@
+import { roomStore } from './store';
+
+// 서버 시계 - 온라인 방의 시각은 모두 이 시계로 쓰고 비교한다
+// 클라이언트 시계가 빠르거나 느려도 양쪽이 같은 남은 시간을 본다
+
+let serverTimeOffset = 0;
+
+roomStore.subscribeServerTimeOffset((offset) => {
+  serverTimeOffset = offset;
+});
+
+export const serverNow = (): number => Date.now() + serverTimeOffset;
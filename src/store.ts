@@ -0,0 +1,55 @@
+import { createFirebaseStores } from './firebaseStore';
+import { createMemoryStores } from './memoryStore';
+import type { Room, User, ChatMessage, ArchivedGame } from './types';
+
+// 저장소 - 게임 코드는 Firebase를 직접 부르지 않고 이 인터페이스만 쓴다
+// VITE_STORE=memory면 Firebase 없이 메모리 + BroadcastChannel(같은 브라우저의 탭끼리)로 실행
+
+export type Unsubscribe = () => void;
+
+export interface RoomWriteResult {
+  committed: boolean;
+  room: Room | null; // 쓰기 후 (거부됐으면 현재) 저장소의 방
+}
+
+// 방 저장소 - 게임 상태는 updateRoom 트랜잭션으로만 바꾼다
+export interface RoomStore {
+  // 방 하나 구독 - 구독 직후 현재 값으로 한 번 불린다 (방이 없으면 null)
+  subscribeRoom: (code: string, onChange: (room: Room | null) => void) => Unsubscribe;
+  subscribeRooms: (onChange: (rooms: Room[]) => void) => Unsubscribe;
+  // 새 방 - 같은 코드의 방이 이미 있으면 덮어쓰지 않고 false
+  insertRoom: (room: Room) => Promise<boolean>;
+  // 최신 방으로 mutate를 불러 쓴다 (충돌하면 다시 부른다). mutate가 null이면 쓰지 않는다
+  updateRoom: (code: string, mutate: (room: Room) => Room | null) => Promise<RoomWriteResult>;
+  // 다른 쓰기와 겹치지 않는 필드만 바꾼다 (보조 기능 표시 등). 방이 지워졌으면 쓰지 않는다
+  patchRoom: (code: string, fields: Partial<Room>) => Promise<void>;
+  appendMessage: (code: string, message: ChatMessage) => Promise<void>;
+  // 방의 presence[role]을 접속 중으로 표시 - 탭이 닫히거나 연결이 끊기면 저장소가 offline으로 바꾼다
+  trackPresence: (code: string, role: 'host' | 'guest') => Unsubscribe;
+  removeRoom: (code: string) => Promise<void>;
+  // 최신 방이 shouldRemove를 만족할 때만 지운다 (트랜잭션) - 지웠으면 true
+  removeRoomIf: (code: string, shouldRemove: (room: Room) => boolean) => Promise<boolean>;
+  // 서버 시각 - 로컬 시계와의 차이 (ms). 구독 직후와 바뀔 때마다 불린다
+  subscribeServerTimeOffset: (onChange: (offset: number) => void) => Unsubscribe;
+}
+
+// 유저 / 게임 기록 저장소
+export interface UserStore {
+  signIn: () => Promise<string>; // 익명 접속 id (방의 hostId / guestId)
+  getUser: (id: string) => Promise<User | null>;
+  getUsers: () => Promise<User[]>;
+  subscribeUsers: (onChange: (users: User[]) => void) => Unsubscribe;
+  saveUser: (user: User) => Promise<void>;
+  getRegistrationCode: () => Promise<string | null>;
+  saveGame: (game: ArchivedGame) => Promise<void>;
+  getUserGames: (userId: string) => Promise<ArchivedGame[]>; // 호스트 또는 게스트로 참여한 게임
+}
+
+export interface Stores {
+  roomStore: RoomStore;
+  userStore: UserStore;
+}
+
+export const { roomStore, userStore }: Stores = import.meta.env.VITE_STORE === 'memory'
+  ? createMemoryStores()
+  : createFirebaseStores();
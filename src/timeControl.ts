@@ -0,0 +1,124 @@
+import type { Room, MoveRecord, TimeControl, TimeoutPolicy } from './types';
+
+// 시간 제한 프리셋
+export const TIME_CONTROL_PRESETS: Record<Exclude<TimeControl['preset'], 'custom'>, TimeControl> = {
+  perMove: { preset: 'perMove', baseTime: 30_000, increment: 0, delay: 0 },
+  bullet: { preset: 'bullet', baseTime: 60_000, increment: 0, delay: 0 },
+  blitz: { preset: 'blitz', baseTime: 180_000, increment: 2_000, delay: 0 },
+  rapid: { preset: 'rapid', baseTime: 600_000, increment: 0, delay: 0 }
+};
+
+// 예전 방(timeControl 없음)은 수당 30초
+export const DEFAULT_TIME_CONTROL = TIME_CONTROL_PRESETS.perMove;
+
+export const getTimeControl = (room: Pick<Room, 'timeControl'>): TimeControl => {
+  return room.timeControl ?? DEFAULT_TIME_CONTROL;
+};
+
+// 직접 설정 입력값 (분 / 초 단위)
+export interface CustomTimeInput {
+  minutes: number;
+  increment: number;
+  delay: number;
+}
+
+// 로비 선택값을 TimeControl로 변환
+export const toTimeControl = (preset: TimeControl['preset'], custom: CustomTimeInput): TimeControl => {
+  if (preset !== 'custom') return TIME_CONTROL_PRESETS[preset];
+  return {
+    preset: 'custom',
+    baseTime: custom.minutes * 60_000,
+    increment: custom.increment * 1000,
+    delay: custom.delay * 1000
+  };
+};
+
+// 자동 수는 수당 제한에서만 - 누적 시계는 자동으로 둔 뒤에도 0이라 다음 차례마다 바로 자동으로 두게 된다
+// 예전 방은 수당 제한이면 무작위 수, 그 외에는 시간패
+export const getTimeoutPolicy = (room: Pick<Room, 'timeControl' | 'timeoutPolicy'>): TimeoutPolicy => {
+  if (getTimeControl(room).preset !== 'perMove') return 'loseOnTime';
+  return room.timeoutPolicy ?? 'randomMove';
+};
+
+// 로비 / 헤더 표시용 (예: "3+2", "수당 30초")
+export const formatTimeControl = (timeControl: TimeControl): string => {
+  if (timeControl.preset === 'perMove') {
+    return `수당 ${timeControl.baseTime / 1000}초`;
+  }
+  const base = `${timeControl.baseTime / 60_000}+${timeControl.increment / 1000}`;
+  return timeControl.delay > 0 ? `${base} (지연 ${timeControl.delay / 1000}초)` : base;
+};
+
+// 양쪽 시계 초기값
+export const createClocks = (timeControl: TimeControl): NonNullable<Room['clocks']> => ({
+  white: timeControl.baseTime,
+  black: timeControl.baseTime
+});
+
+// now 시점에 color 쪽에 남은 시간 (ms)
+// 차례인 쪽만 turnStartTime부터 시간이 흐른다
+export const getRemainingTime = (
+  room: Pick<Room, 'timeControl' | 'clocks' | 'currentTurn' | 'turnStartTime'>,
+  color: 'white' | 'black',
+  now: number
+): number => {
+  const timeControl = getTimeControl(room);
+  const bank = room.clocks?.[color] ?? timeControl.baseTime;
+  if (room.currentTurn !== color) return bank;
+  return Math.max(0, bank - (now - room.turnStartTime));
+};
+
+// 수를 둔 쪽의 시계 갱신 - 피셔 증가 / 브론스타인 지연 적용
+export const applyMoveToClocks = (
+  room: Pick<Room, 'timeControl' | 'clocks' | 'currentTurn' | 'turnStartTime'>,
+  mover: 'white' | 'black',
+  now: number
+): NonNullable<Room['clocks']> => {
+  const timeControl = getTimeControl(room);
+  const clocks = room.clocks ?? createClocks(timeControl);
+
+  if (timeControl.preset === 'perMove') {
+    return { ...clocks, [mover]: timeControl.baseTime };
+  }
+
+  const spent = now - room.turnStartTime;
+  const remaining = Math.max(0, (clocks[mover] ?? timeControl.baseTime) - spent);
+  // 브론스타인: 사용한 시간 중 지연만큼 돌려받음
+  const refunded = Math.min(timeControl.delay, spent);
+
+  return { ...clocks, [mover]: remaining + refunded + timeControl.increment };
+};
+
+// 무르기 - 되돌린 수에 쓴 시간을 돌려주고 그 수로 받은 증가 / 지연 시간은 회수
+// 지금 차례인 쪽이 생각한 시간은 쓴 것으로 친다
+export const rewindClocks = (
+  room: Pick<Room, 'timeControl' | 'clocks' | 'currentTurn' | 'turnStartTime'>,
+  undone: MoveRecord[],
+  now: number
+): NonNullable<Room['clocks']> => {
+  const timeControl = getTimeControl(room);
+  if (timeControl.preset === 'perMove') return createClocks(timeControl);
+
+  const clocks = { ...(room.clocks ?? createClocks(timeControl)) };
+  clocks[room.currentTurn] = getRemainingTime(room, room.currentTurn, now);
+
+  // 마지막 수부터 거꾸로 - 마지막 수는 지금 차례가 아닌 쪽이 두었다
+  let mover: 'white' | 'black' = room.currentTurn === 'white' ? 'black' : 'white';
+  for (const record of [...undone].reverse()) {
+    const refunded = Math.min(timeControl.delay, record.timeSpent);
+    clocks[mover] += record.timeSpent - refunded - timeControl.increment;
+    mover = mover === 'white' ? 'black' : 'white';
+  }
+  return clocks;
+};
+
+// 시계 표시 (m:ss, 10초 미만은 소수점 한 자리)
+export const formatClock = (ms: number): string => {
+  if (ms < 10_000) {
+    return `0:0${(Math.floor(ms / 100) / 10).toFixed(1)}`;
+  }
+  const totalSeconds = Math.ceil(ms / 1000);
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
@@ -6,33 +6,183 @@ export interface Player {
 
 export interface Room {
     code: string;
+    version?: number; // 게임 상태를 쓸 때마다 1씩 증가 (roomStore 트랜잭션)
     hostId: string;
+    hostUserId?: string | null; // 로그인 유저 id (비로그인이면 null)
     hostNickname: string;
     hostRecord?: { wins: number; losses: number };
     guestId: string | null;
+    guestUserId?: string | null;
     guestNickname: string | null;
     guestRecord?: { wins: number; losses: number } | null;
     guestReady: boolean;
     status: 'waiting' | 'ready' | 'playing' | 'paused' | 'finished';
     currentTurn: 'white' | 'black';
-    turnStartTime: number;
+    turnStartTime: number; // 온라인 방의 시각은 모두 서버 시각 (serverClock.ts)
+    timeControl?: TimeControl;
+    timeoutPolicy?: TimeoutPolicy;
+    clocks?: { white: number; black: number }; // 각자 남은 시간 (ms, turnStartTime 기준)
+    startedAt?: number; // 현재 게임 시작 시각
     fen: string;
-    lastMove: { from: string; to: string } | null;
+    startFen?: string;
+    moves?: MoveRecord[];
+    lastMove: { from: string; to: string; promotion?: PieceType | null } | null;
     winner: 'host' | 'guest' | 'draw' | null;
+    endReason?: GameEndReason | null;
     loserStarts: boolean;
     previousLoser: 'host' | 'guest' | null;
+    whitePlayer?: 'host' | 'guest'; // 현재 게임의 백 (게임 시작 시 결정)
     messages?: ChatMessage[];
-    // 연결 상태 추적
-    hostLastActive: number;
-    guestLastActive: number;
+    // 연결 상태 추적 - presence는 저장소가 접속 / 끊김 때 기록한다 (roomStore.trackPresence)
+    presence?: { host?: PlayerPresence | null; guest?: PlayerPresence | null };
     disconnectedPlayer: 'host' | 'guest' | null;
-    disconnectedAt: number | null;
+    disconnectedAt: number | null; // 끊긴 쪽 presence.changedAt
     // 방 설정
     isPrivate: boolean;
     createdAt: number;
+    botLevel?: number | null; // 봇 대전이면 봇 난이도 (게스트 = 봇)
+    rated?: boolean; // 랭크 게임이면 전적 반영 + 엔진 보조 불가 (없으면 랭크)
+    assistanceEnabled?: boolean; // 현재 게임에서 평가 막대 / 힌트를 켰는지
+    variant?: Variant; // 없으면 표준
+    setupFen?: string | null; // 보드 편집기로 만든 시작 국면 (다시 하기도 이 국면에서)
+    takebacksAllowed?: boolean; // 무르기 허용 (없으면 허용)
+    takebackRequest?: TakebackRequest | null; // 상대의 응답을 기다리는 무르기 요청
+    drawOffer?: 'host' | 'guest' | null; // 무승부 제안한 쪽 (제안한 쪽이 수를 두면 무효)
 }
 
+// 접속 상태 - changedAt은 서버 시각 (연결이 끊기면 서버가 online: false로 바꾼다)
+export interface PlayerPresence {
+    online: boolean;
+    changedAt: number;
+}
+
+// 들어가 있는 방 - 새로고침 / 충돌 후 다시 들어가기 위해 브라우저에 저장 (roomSession.ts)
+export interface ActiveRoomSession {
+    code: string;
+    role: 'host' | 'guest';
+    playerId: string; // 저장할 때의 접속 id (다시 로그인하면 바뀔 수 있음)
+}
+
+// 무르기 요청 - 상대가 수락하면 plies수를 되돌린다
+export interface TakebackRequest {
+    by: 'host' | 'guest';
+    plies: number; // 내 차례면 2 (상대 수 + 내 수), 상대 차례면 1
+    moveCount: number; // 요청 시점의 기보 길이 (그 뒤에 수를 두면 무효)
+}
+
+// 변형 규칙 (규칙 정의는 variants.ts) - 시작 국면은 Room.fen / startFen으로 공유
+export type Variant = 'standard' | 'chess960' | 'kingOfTheHill' | 'threeCheck' | 'horde';
+
+// 실제로 둔 수 - chess.js Move 또는 Chess960 캐슬링 (from = 킹, to = 룩)
+export interface PlayedMove {
+    color: PieceColor;
+    from: string;
+    to: string;
+    san: string;
+    promotion?: PieceType;
+}
+
+
+
+// 기보에 기록되는 한 수
+export interface MoveRecord {
+    san: string;
+    from: string;
+    to: string;
+    promotion: PieceType | null;
+    timestamp: number;
+    timeSpent: number; // ms
+}
+
+// 시간 제한 - perMove는 매 수마다 baseTime으로 초기화
+export interface TimeControl {
+    preset: 'perMove' | 'bullet' | 'blitz' | 'rapid' | 'custom';
+    baseTime: number;  // ms
+    increment: number; // 피셔 증가 (ms)
+    delay: number;     // 브론스타인 지연 (ms)
+}
+
+// 시간이 다 됐을 때 처리 방식
+export type TimeoutPolicy = 'loseOnTime' | 'randomMove' | 'engineMove';
+
+// PGN에서 불러온 게임 - 마지막 국면부터 이어서 둘 수 있다
+export interface ImportedGame {
+    headers: Record<string, string>;
+    startFen: string;
+    fen: string;
+    moves: MoveRecord[];
+}
+
+// 방 만들기 옵션
+export interface CreateRoomOptions {
+    isPrivate: boolean;
+    rated: boolean;
+    importedGame: ImportedGame | null;
+    timeControl: TimeControl;
+    timeoutPolicy: TimeoutPolicy;
+    variant: Variant;
+    startFen: string | null; // 보드 편집기 국면
+    takebacksAllowed: boolean; // 친선전은 항상 허용
+}
+
+// ECO 오프닝
+export interface Opening {
+    eco: string;
+    name: string;
+}
 
+// 봇 대전 옵션
+export interface BotGameOptions {
+    level: number;
+    color: 'white' | 'black' | 'random';
+    timeControl: TimeControl;
+    saveToHistory: boolean;
+    startFen: string | null; // 보드 편집기 국면
+    importedGame: ImportedGame | null; // 불러온 PGN - 마지막 국면부터 이어서
+}
+
+// 한 화면 2인 대국 설정 (Firebase 미사용)
+export interface HotseatOptions {
+    whiteName: string;
+    blackName: string;
+    timeControl: TimeControl;
+    flipBoard: boolean; // 매 수마다 차례인 쪽으로 보드 회전
+    startFen: string | null; // 보드 편집기 국면
+    importedGame: ImportedGame | null; // 불러온 PGN - 마지막 국면부터 이어서
+}
+
+// 로컬 게임 - 봇 대전 또는 한 화면 2인 대국
+export type LocalGameSetup =
+    | { mode: 'bot'; nickname: string; options: BotGameOptions }
+    | { mode: 'hotseat'; options: HotseatOptions };
+
+// 게임 종료 사유
+export type GameEndReason =
+    | 'checkmate'
+    | 'stalemate'
+    | 'threefoldRepetition' // 주장
+    | 'fiftyMoveRule' // 주장
+    | 'fivefoldRepetition'
+    | 'seventyFiveMoveRule'
+    | 'insufficientMaterial'
+    | 'resign'
+    | 'drawAgreement'
+    | 'abandon'
+    | 'disconnect'
+    | 'timeout'
+    | 'timeoutVsInsufficientMaterial'
+    | 'kingOfTheHill'
+    | 'threeCheck'
+    | 'hordeDestroyed';
+
+// 주장해야 성립하는 무승부
+export type DrawClaim = Extract<GameEndReason, 'threefoldRepetition' | 'fiftyMoveRule'>;
+
+// 게임 결과 판정 (winner가 null이면 무승부)
+export interface GameResult {
+    winner: 'white' | 'black' | null;
+    reason: GameEndReason;
+}
 
 export interface ChatMessage {
     id: string;
@@ -61,6 +211,14 @@ export interface ChessPiece {
     square: string;
 }
 
+// 보드 편집기 상태
+export interface PositionSetup {
+    pieces: ChessPiece[];
+    turn: PieceColor;
+    castling: { K: boolean; Q: boolean; k: boolean; q: boolean };
+    epSquare: string | null;
+}
+
 // User account for registration/login
 export interface User {
     id: string;
@@ -71,9 +229,73 @@ export interface User {
     wins: number;      // 승리 횟수
     losses: number;    // 패배 횟수
     draws: number;     // 무승부 횟수
+    puzzleRating?: number;  // 퍼즐 레이팅 (없으면 기본값)
+    puzzlesSolved?: number; // 한 번에 푼 퍼즐 수
+}
+
+// 퍼즐 - fen 국면에서 moves(UCI)를 번갈아 둔다 (짝수 index = 푸는 사람)
+export interface Puzzle {
+    id: string;
+    fen: string;
+    moves: string[];
+    rating: number;
+    themes: string[];
 }
 
 
+// 종료된 게임 기록 (games/ 컬렉션)
+export interface ArchivedGame {
+    id: string;
+    roomCode: string;
+    hostUserId: string | null;
+    guestUserId: string | null;
+    hostNickname: string;
+    guestNickname: string;
+    whitePlayer: 'host' | 'guest';
+    startFen: string;
+    moves: MoveRecord[];
+    winner: 'host' | 'guest' | 'draw';
+    endReason: GameEndReason | null;
+    startedAt: number;
+    finishedAt: number;
+    botLevel?: number | null;
+    rated?: boolean;
+    assistanceEnabled?: boolean;
+    opening?: Opening | null;
+    variant?: Variant;
+}
+
+// 다시보기 대상 (기록된 게임 또는 붙여넣은 PGN)
+export interface ReplayGame {
+    title: string;
+    whiteName: string;
+    blackName: string;
+    startFen: string;
+    moves: MoveRecord[];
+    variant?: Variant; // 변형 규칙의 특수 수를 다시 두기 위해 (없으면 표준)
+}
+
+// 대국 분석 - 승률 손실에 따른 수 판정
+export type MoveJudgement = 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface MoveAnalysis {
+    ply: number;               // 1부터
+    san: string;
+    color: 'white' | 'black';
+    evalBefore: number;        // 백 기준 센티폰
+    evalAfter: number;
+    judgement: MoveJudgement | null;
+    bestMove: string | null;   // 엔진 추천 수 (SAN)
+    accuracy: number;          // 0~100
+}
+
+export interface GameAnalysis {
+    evals: number[];           // 국면별 평가 (index 0 = 시작 국면)
+    depth: number;             // 모든 국면을 끝까지 본 최소 탐색 깊이
+    moves: MoveAnalysis[];
+    accuracy: { white: number; black: number };
+}
+
 // Admin config (stored in Firebase)
 export interface AdminConfig {
     registrationCode: string; // 4-digit code required for registration
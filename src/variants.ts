@@ -0,0 +1,142 @@
+import { Chess, DEFAULT_POSITION, type Square } from 'chess.js';
+import { createRandomChess960Fen, getCastlingRooks, toShredderFen, tryCastle960 } from './chess960';
+import type { Room, Variant, PlayedMove, GameResult } from './types';
+
+// 변형 규칙 - 방의 variant로 시작 국면, 특수 수, 추가 승리 조건, 보드 / 헤더 표시를 정한다
+
+type MoveHistory = Pick<Room, 'startFen' | 'moves'>;
+
+export interface VariantRules {
+  label: string;
+  description: string;
+  pgnName: string; // PGN Variant 태그
+  createStartFen: () => string;
+  randomStart?: boolean; // 다시 하기 때 호스트가 새 배치 / 같은 배치를 고른다
+  toPgnFen?: (startFen: string) => string;
+  // chess.js가 모르는 특수 수 - getCandidates는 from에서 시도할 칸, apply는 보드 모양만 보고 둔다
+  extraMove?: {
+    getCandidates: (chess: Chess, history: MoveHistory, from: string) => string[];
+    apply: (chess: Chess, from: string, to: string) => PlayedMove | null;
+  };
+  // 수를 둔 직후 표준 판정보다 먼저 보는 승패
+  getResult?: (chess: Chess, history: MoveHistory) => GameResult | null;
+  insufficientMaterialDraw: boolean;
+  glowSquares?: string[]; // 보드에서 빛나는 칸
+  countsChecks?: boolean; // 헤더에 체크 횟수 표시
+}
+
+const HILL_SQUARES = ['d4', 'e4', 'd5', 'e5'];
+const HORDE_POSITION = 'rnbqkbnr/pppppppp/8/1PP2PP1/PPPPPPPP/PPPPPPPP/PPPPPPPP/PPPPPPPP w kq - 0 1';
+
+// 방금 둔 쪽 (chess는 수를 둔 직후)
+const getMover = (chess: Chess): 'w' | 'b' => (chess.turn() === 'w' ? 'b' : 'w');
+const toColorName = (color: 'w' | 'b'): 'white' | 'black' => (color === 'w' ? 'white' : 'black');
+
+// 양쪽이 준 체크 횟수 (SAN의 + / #로 센다)
+export const getCheckCounts = (history: MoveHistory): { white: number; black: number } => {
+  const whiteFirst = (history.startFen || DEFAULT_POSITION).split(' ')[1] !== 'b';
+  const counts = { white: 0, black: 0 };
+  (history.moves || []).forEach((record, index) => {
+    if (!/[+#]$/.test(record.san)) return;
+    const isWhite = (index % 2 === 0) === whiteFirst;
+    counts[isWhite ? 'white' : 'black']++;
+  });
+  return counts;
+};
+
+// 호드 - 1랭크 백 폰도 2칸 전진 가능 (앙파상 대상은 되지 않는다)
+const tryHordeDoubleStep = (chess: Chess, from: string, to: string): PlayedMove | null => {
+  const pawn = chess.get(from as Square);
+  if (pawn?.type !== 'p' || pawn.color !== 'w' || chess.turn() !== 'w') return null;
+  if (from[1] !== '1' || to !== `${from[0]}3`) return null;
+  if (chess.get(`${from[0]}2` as Square) || chess.get(to as Square)) return null;
+
+  const next = new Chess(chess.fen(), { skipValidation: true });
+  next.remove(from as Square);
+  next.put(pawn, to as Square);
+  const [board, , castling, , , moveNumber] = next.fen().split(' ');
+  chess.load(`${board} b ${castling} - 0 ${moveNumber}`, { skipValidation: true });
+
+  const suffix = chess.isCheckmate() ? '#' : chess.inCheck() ? '+' : '';
+  return { color: 'w', from, to, san: `${to}${suffix}` };
+};
+
+export const VARIANTS: Record<Variant, VariantRules> = {
+  standard: {
+    label: '표준',
+    description: '일반 체스',
+    pgnName: 'Standard',
+    createStartFen: () => DEFAULT_POSITION,
+    insufficientMaterialDraw: true
+  },
+  chess960: {
+    label: 'Chess960',
+    description: '무작위 시작 배치 - 캐슬링은 킹을 고른 뒤 같은 편 룩을 누른다',
+    pgnName: 'Chess960',
+    createStartFen: createRandomChess960Fen,
+    randomStart: true,
+    toPgnFen: (startFen) => toShredderFen(startFen),
+    extraMove: {
+      getCandidates: (chess, history, from) => {
+        if (chess.get(from as Square)?.type !== 'k') return [];
+        return getCastlingRooks(history.startFen || DEFAULT_POSITION, history.moves || []);
+      },
+      apply: tryCastle960
+    },
+    insufficientMaterialDraw: true
+  },
+  kingOfTheHill: {
+    label: '킹 오브 더 힐',
+    description: '킹이 중앙 4칸에 도착하면 승리',
+    pgnName: 'King of the Hill',
+    createStartFen: () => DEFAULT_POSITION,
+    getResult: (chess) => {
+      const mover = getMover(chess);
+      const [king] = chess.findPiece({ type: 'k', color: mover });
+      if (!king || !HILL_SQUARES.includes(king)) return null;
+      return { winner: toColorName(mover), reason: 'kingOfTheHill' };
+    },
+    insufficientMaterialDraw: false,
+    glowSquares: HILL_SQUARES
+  },
+  threeCheck: {
+    label: '3체크',
+    description: '체크를 3번 먼저 하면 승리',
+    pgnName: 'Three-check',
+    createStartFen: () => DEFAULT_POSITION,
+    getResult: (chess, history) => {
+      const mover = toColorName(getMover(chess));
+      if (getCheckCounts(history)[mover] < 3) return null;
+      return { winner: mover, reason: 'threeCheck' };
+    },
+    insufficientMaterialDraw: true,
+    countsChecks: true
+  },
+  horde: {
+    label: '호드',
+    description: '백은 폰 36개 (킹 없음) - 흑은 백 기물을 모두 잡으면 승리',
+    pgnName: 'Horde',
+    createStartFen: () => HORDE_POSITION,
+    extraMove: {
+      getCandidates: (chess, _history, from) => {
+        const pawn = chess.get(from as Square);
+        return pawn?.type === 'p' && pawn.color === 'w' && from[1] === '1' ? [`${from[0]}3`] : [];
+      },
+      apply: tryHordeDoubleStep
+    },
+    getResult: (chess) => {
+      const hasWhitePieces = chess.board().flat().some(piece => piece?.color === 'w');
+      return hasWhitePieces ? null : { winner: 'black', reason: 'hordeDestroyed' };
+    },
+    insufficientMaterialDraw: false
+  }
+};
+
+// 방의 변형 규칙 (예전 방은 표준)
+export const getVariant = (room: Pick<Room, 'variant'>): Variant => {
+  return room.variant ?? 'standard';
+};
+
+export const getVariantRules = (room: Pick<Room, 'variant'>): VariantRules => {
+  return VARIANTS[getVariant(room)];
+};
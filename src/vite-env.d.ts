@@ -8,6 +8,7 @@ interface ImportMetaEnv {
     readonly VITE_FIREBASE_STORAGE_BUCKET: string;
     readonly VITE_FIREBASE_MESSAGING_SENDER_ID: string;
     readonly VITE_FIREBASE_APP_ID: string;
+    readonly VITE_STORE?: 'firebase' | 'memory'; // 저장소 선택 (기본 firebase)
 }
 
 interface ImportMeta {